@@ -1,9 +1,85 @@
 /**
- * Background service worker that updates the extension badge
+ * Background service worker that updates the extension badge and runs download jobs.
+ * Jobs outlive the popup: it closes as soon as the page is clicked, while a full
+ * download may scroll or page for minutes. Chrome may stop the worker meanwhile, so
+ * job state is kept in session storage and restored when it starts again.
  */
 
 import { BADGE_COLOR_TABLES_FOUND } from '../shared/constants';
-import type { TableCountMessage } from '../shared/types';
+import {
+  type BundleTable,
+  buildBundleFilename,
+  buildCorporateActionFilename,
+  buildDownloadFilename,
+  formatBundleManifest,
+  formatKeyStats,
+  getExportMimeType,
+  getUniqueFilename,
+} from '../shared/export';
+import { createLogger } from '../shared/logger';
+import type {
+  AddBundleFileMessage,
+  BackgroundMessage,
+  ContentScriptMessage,
+  CorporateActionOutput,
+  CreateFileUrlMessage,
+  CreateZipUrlMessage,
+  DiscardBundleMessage,
+  DownloadJob,
+  FileUrlResponse,
+  JobProgressMessage,
+  JobTable,
+  ManualMapping,
+  ProgressUpdate,
+  RevokeFileUrlMessage,
+  StartDownloadJobMessage,
+  StartFullDownloadMessage,
+  StartManualDownloadMessage,
+  WatchPageMessage,
+} from '../shared/types';
+import type { ZipEntry } from '../shared/zip';
+
+const log = createLogger('background');
+
+/** Icon shown in download notifications */
+const NOTIFICATION_ICON = 'icon.png';
+
+// Running download jobs by tab
+const jobs = new Map<number, DownloadJob>();
+
+/** Name of the file listing a bundle's tables */
+const BUNDLE_MANIFEST_NAME = 'manifest.json';
+
+/** Page that makes blob URLs of files to download */
+const OFFSCREEN_DOCUMENT = 'offscreen.html';
+
+// Creation of the offscreen document in progress, so saves at the same time share it
+let offscreenCreating: Promise<void> | null = null;
+
+// Blob URLs of downloads in progress by download id, revoked once each download ends
+const downloadUrls = new Map<number, string>();
+
+/**
+ * File names and manifest entries of a bundle, as its tables finish. The offscreen
+ * document holds the files themselves.
+ */
+interface BundleContents {
+  files: string[];
+  tables: BundleTable[];
+}
+
+// Bundles being collected by tab, for jobs downloading every table
+const bundles = new Map<number, BundleContents>();
+
+/** Session storage key of the job state, read back when the worker restarts */
+const JOB_STATE_KEY = 'downloadJobState';
+
+/** Job state kept in session storage */
+interface JobState {
+  jobs: Record<number, DownloadJob>;
+  bundles: Record<number, BundleContents>;
+  downloadUrls: Record<number, string>;
+}
 
 /**
  * Updates the extension badge based on table count
@@ -37,18 +113,474 @@ function updateBadge(tabId: number, tableCount: number): void {
 }
 
 /**
- * Listen for messages from content scripts
+ * Shows a desktop notification about a download
+ */
+function notify(title: string, message: string): void {
+  chrome.notifications.create({ type: 'basic', iconUrl: NOTIFICATION_ICON, title, message });
+}
+
+/**
+ * Saves the job state to session storage
+ */
+function saveJobState(): void {
+  const state: JobState = {
+    jobs: Object.fromEntries(jobs),
+    bundles: Object.fromEntries(bundles),
+    downloadUrls: Object.fromEntries(downloadUrls),
+  };
+  chrome.storage.session.set({ [JOB_STATE_KEY]: state }).catch((err) => {
+    log.error('Failed to save download jobs', err);
+  });
+}
+
+/**
+ * Rebuilds the job state saved before the worker was stopped. The requests that
+ * watched the jobs' pages were lost with it, so each page is watched again.
+ */
+async function restoreJobState(): Promise<void> {
+  try {
+    const stored = await chrome.storage.session.get(JOB_STATE_KEY);
+    const state = stored[JOB_STATE_KEY] as JobState | undefined;
+    if (!state) return;
+
+    for (const [tabId, job] of Object.entries(state.jobs)) jobs.set(Number(tabId), job);
+    for (const [tabId, bundle] of Object.entries(state.bundles)) bundles.set(Number(tabId), bundle);
+    for (const [id, url] of Object.entries(state.downloadUrls)) downloadUrls.set(Number(id), url);
+    if (jobs.size > 0) log.info('Download jobs restored', { jobs: jobs.size });
+
+    for (const job of jobs.values()) watchJobPage(job);
+  } catch (err) {
+    log.error('Failed to restore download jobs', err);
+  }
+}
+
+/**
+ * Formats a downloaded table as its file. Key statistics are stamped and formatted
+ * here, as the popup did before jobs.
+ */
+function formatTableFile(job: DownloadJob, table: JobTable, csvData: string): ZipEntry {
+  const isKeyStats = table.tableType === 'keystats';
+  const format = isKeyStats ? job.keyStatsFormat : 'csv';
+  return {
+    name: buildDownloadFilename(table.tableType, table.ticker, table.timeframe, format),
+    content: isKeyStats ? formatKeyStats(csvData, table.ticker, format) : csvData,
+  };
+}
+
+/**
+ * Opens the offscreen document unless it is already open
+ */
+async function ensureOffscreenDocument(): Promise<void> {
+  if (await chrome.offscreen.hasDocument()) return;
+  offscreenCreating ??= chrome.offscreen
+    .createDocument({
+      url: OFFSCREEN_DOCUMENT,
+      reasons: [chrome.offscreen.Reason.BLOBS],
+      justification: 'Create blob URLs of downloaded tables',
+    })
+    .finally(() => {
+      offscreenCreating = null;
+    });
+  await offscreenCreating;
+}
+
+/**
+ * Saves a file through the downloads API. Service workers can't create blob URLs and
+ * data URLs over 2 MB are refused, so the offscreen document makes the URL.
+ */
+async function saveFile(
+  filename: string,
+  request: CreateFileUrlMessage | CreateZipUrlMessage
+): Promise<void> {
+  await ensureOffscreenDocument();
+  const { url } = (await chrome.runtime.sendMessage(request)) as FileUrlResponse;
+  try {
+    const downloadId = await chrome.downloads.download({ url, filename });
+    downloadUrls.set(downloadId, url);
+    saveJobState();
+  } catch (err) {
+    revokeFileUrl(url);
+    throw err;
+  }
+}
+
+/**
+ * Frees a blob URL in the offscreen document
+ */
+function revokeFileUrl(url: string): void {
+  const message: RevokeFileUrlMessage = { action: 'revokeFileUrl', url };
+  chrome.runtime.sendMessage(message).catch((err) => {
+    log.error('Failed to revoke file URL', err);
+  });
+}
+
+/**
+ * Drops the files the offscreen document holds for a bundle that won't be saved
+ */
+function discardBundleFiles(tabId: number): void {
+  const message: DiscardBundleMessage = { action: 'discardBundle', tabId };
+  chrome.runtime.sendMessage(message).catch(() => {
+    // No offscreen document, so no files
+  });
+}
+
+/**
+ * Saves a finished job's file, then the dividend/split files split out of a price table.
+ * The popup may be closed by now, so these are saved here too.
+ *
+ * @returns the file names
+ */
+async function saveJobFiles(
+  job: DownloadJob,
+  csvData: string,
+  corporateActions: CorporateActionOutput[]
+): Promise<string[]> {
+  const table = job.tables[0] as JobTable;
+  const { name, content } = formatTableFile(job, table, csvData);
+  const format = table.tableType === 'keystats' ? job.keyStatsFormat : 'csv';
+  await saveFile(name, { action: 'createFileUrl', content, mimeType: getExportMimeType(format) });
+
+  const names = [name];
+  for (const output of corporateActions) {
+    const actionName = buildCorporateActionFilename(output.type, table.ticker);
+    await saveFile(actionName, {
+      action: 'createFileUrl',
+      content: output.csvData,
+      mimeType: getExportMimeType('csv'),
+    });
+    names.push(actionName);
+  }
+  return names;
+}
+
+/**
+ * Adds a finished table to its job's bundle: its file, the dividend/split files split
+ * out of a price table, and a manifest entry for each. A failed table is listed with
+ * its error and no file. Files are handed to the offscreen document to hold.
+ */
+async function addToBundle(
+  job: DownloadJob,
+  bundle: BundleContents,
+  update: ProgressUpdate
+): Promise<void> {
+  const table = job.tables[job.current] as JobTable;
+  const number = table.target === 'picked' ? null : table.target + 1;
+
+  if (update.status !== 'complete' || update.csvData === undefined) {
+    bundle.tables.push({
+      file: null,
+      table: number,
+      type: table.tableType,
+      timeframe: table.timeframe ?? null,
+      rows: 0,
+      changedRows: 0,
+      error: update.error || 'An error occurred during download',
+    });
+    return;
+  }
+
+  const addFile = async (
+    file: ZipEntry,
+    listing: Omit<BundleTable, 'file' | 'table' | 'error'>
+  ) => {
+    const name = getUniqueFilename(file.name, bundle.files);
+    const message: AddBundleFileMessage = {
+      action: 'addBundleFile',
+      tabId: job.tabId,
+      entry: { name, content: file.content },
+    };
+    await chrome.runtime.sendMessage(message);
+    bundle.files.push(name);
+    bundle.tables.push({ ...listing, file: name, table: number, error: null });
+  };
+
+  await ensureOffscreenDocument();
+  await addFile(formatTableFile(job, table, update.csvData), {
+    type: table.tableType,
+    timeframe: table.timeframe ?? null,
+    rows: Math.max(update.rowsCollected - 1, 0), // rowsCollected counts the header row
+    changedRows: update.conflicts?.length ?? 0,
+  });
+  for (const output of update.corporateActions ?? []) {
+    await addFile(
+      { name: buildCorporateActionFilename(output.type, table.ticker), content: output.csvData },
+      { type: output.type, timeframe: null, rows: output.rows, changedRows: 0 }
+    );
+  }
+}
+
+/**
+ * Saves a finished bundle as one ZIP with a manifest.json listing its tables
+ *
+ * @returns the file name
+ */
+async function saveBundle(job: DownloadJob, bundle: BundleContents): Promise<string> {
+  const manifest: ZipEntry = {
+    name: BUNDLE_MANIFEST_NAME,
+    content: formatBundleManifest(job, bundle.tables),
+  };
+  const filename = buildBundleFilename(job.ticker);
+  await saveFile(filename, { action: 'createZipUrl', tabId: job.tabId, manifest });
+  return filename;
+}
+
+/**
+ * Passes a job's progress to the popup, if it is open
+ */
+function sendJobProgress(tabId: number, progress: ProgressUpdate): void {
+  const message: JobProgressMessage = { action: 'jobProgress', tabId, progress };
+  chrome.runtime.sendMessage(message).catch(() => {
+    // No popup open to receive it
+  });
+}
+
+/**
+ * Records a job's progress and passes it to the popup
+ */
+function recordJobProgress(job: DownloadJob, progress: ProgressUpdate): void {
+  job.progress = progress;
+  sendJobProgress(job.tabId, progress);
+}
+
+/**
+ * Ends a job that failed, telling the popup and the user
+ */
+function failJob(job: DownloadJob, error: string): void {
+  jobs.delete(job.tabId);
+  if (bundles.delete(job.tabId)) discardBundleFiles(job.tabId);
+  saveJobState();
+  recordJobProgress(job, {
+    action: 'downloadProgress',
+    progress: 0,
+    rowsCollected: 0,
+    status: 'error',
+    error,
+  });
+  notify('Download failed', error);
+}
+
+/**
+ * Saves a finished bundle and tells the popup and the user
+ */
+async function finishBundle(job: DownloadJob, bundle: BundleContents): Promise<void> {
+  jobs.delete(job.tabId);
+  bundles.delete(job.tabId);
+
+  const saved = bundle.tables.filter((table) => table.file !== null);
+  if (saved.length === 0) {
+    failJob(job, bundle.tables[0]?.error || 'No table could be downloaded');
+    return;
+  }
+
+  const rows = saved.reduce((total, table) => total + table.rows, 0);
+  const failed = bundle.tables.length - saved.length;
+  try {
+    const filename = await saveBundle(job, bundle);
+    log.info('Bundle saved', { tabId: job.tabId, filename, files: bundle.files.length, failed });
+    notify(
+      'Download complete',
+      `${filename} (${job.tables.length - failed} of ${job.tables.length} tables, ${rows} rows)`
+    );
+  } catch (err) {
+    log.error('Error saving bundle', err);
+    notify('Download failed', err instanceof Error ? err.message : 'Unable to save the file');
+  }
+  recordJobProgress(job, {
+    action: 'downloadProgress',
+    progress: 100,
+    rowsCollected: rows,
+    status: 'complete',
+    table: job.tables.length,
+    tableCount: job.tables.length,
+  });
+}
+
+/**
+ * Sends a message to a job's page. Once its first progress names the page, a page
+ * loaded since in the same tab isn't sent to, so the request fails instead.
+ */
+function sendToJobPage(job: DownloadJob, message: ContentScriptMessage): Promise<unknown> {
+  return job.documentId
+    ? chrome.tabs.sendMessage(job.tabId, message, { documentId: job.documentId })
+    : chrome.tabs.sendMessage(job.tabId, message);
+}
+
+/**
+ * Ends a job whose page went away, unless the job already ended
+ */
+function loseJob(job: DownloadJob, err: unknown): void {
+  if (jobs.get(job.tabId) !== job) return;
+  log.error('Download job lost its page', err);
+  failJob(job, 'The page was closed or reloaded during the download');
+}
+
+/**
+ * Watches the page of a job restored after a restart. The content script never
+ * answers, so this only settles when the page is gone, perhaps since before the restart.
+ */
+function watchJobPage(job: DownloadJob): void {
+  const message: WatchPageMessage = { action: 'watchPage' };
+  sendToJobPage(job, message).catch((err) => loseJob(job, err));
+}
+
+/**
+ * Asks the tab's content script to download the job's current table
+ */
+function requestTable(job: DownloadJob): void {
+  const table = job.tables[job.current] as JobTable;
+  const request: StartFullDownloadMessage | StartManualDownloadMessage =
+    table.target === 'picked'
+      ? {
+          action: 'startManualDownload',
+          mapping: job.mapping as ManualMapping,
+          options: job.options,
+        }
+      : { action: 'startFullDownload', tableIndex: table.target, options: job.options };
+
+  // The content script never answers download requests, so this only settles when
+  // the page can't be reached or goes away (navigation), which ends the job
+  sendToJobPage(job, request).catch((err) => loseJob(job, err));
+}
+
+/**
+ * Records a tab's download progress. A finished table is saved, or added to the
+ * job's bundle and the next table requested; the last one saves the bundle.
+ */
+async function handleJobProgress(
+  tabId: number,
+  update: ProgressUpdate,
+  documentId: string | undefined
+): Promise<void> {
+  await jobStateRestored;
+  const job = jobs.get(tabId);
+  if (!job) return;
+  job.documentId ??= documentId;
+
+  // The CSV can be large and is only needed once, to save the file
+  const { csvData, corporateActions, conflicts, ...progress } = update;
+  const bundle = bundles.get(tabId);
+
+  if (bundle) {
+    if (update.status === 'cancelled') {
+      jobs.delete(tabId);
+      bundles.delete(tabId);
+      discardBundleFiles(tabId);
+      recordJobProgress(job, progress);
+    } else if (update.status === 'complete' || update.status === 'error') {
+      try {
+        await addToBundle(job, bundle, update);
+      } catch (err) {
+        log.error('Error adding table to bundle', err);
+        failJob(job, 'Unable to keep the downloaded table for the bundle');
+        return;
+      }
+      job.current++;
+      if (job.current < job.tables.length) {
+        requestTable(job);
+      } else {
+        await finishBundle(job, bundle);
+      }
+    } else {
+      recordJobProgress(job, {
+        ...progress,
+        table: job.current + 1,
+        tableCount: job.tables.length,
+      });
+    }
+    saveJobState();
+    return;
+  }
+
+  // The popup refreshes its dividend/split buttons and conflict note from these
+  recordJobProgress(job, { ...progress, corporateActions, conflicts });
+
+  if (update.status === 'complete' && csvData !== undefined) {
+    jobs.delete(tabId);
+    try {
+      const [filename, ...actionFiles] = await saveJobFiles(job, csvData, corporateActions ?? []);
+      log.info('Download saved', { tabId, filename, actionFiles, rows: update.rowsCollected });
+      notify(
+        'Download complete',
+        `${filename} (${update.rowsCollected} rows)${actionFiles.map((name) => `, ${name}`).join('')}`
+      );
+    } catch (err) {
+      log.error('Error saving download', err);
+      notify('Download failed', err instanceof Error ? err.message : 'Unable to save the file');
+    }
+  } else if (update.status === 'error') {
+    jobs.delete(tabId);
+    notify('Download failed', update.error || 'An error occurred during download');
+  } else if (update.status === 'cancelled') {
+    jobs.delete(tabId);
+  }
+  saveJobState();
+}
+
+/**
+ * Starts a download job: records it and asks the tab's content script for its first table.
+ * A tab runs one job at a time; a job for every table collects them into a bundle.
+ *
+ * @returns an error when the job could not start
+ */
+async function startDownloadJob({ job }: StartDownloadJobMessage): Promise<string | null> {
+  await jobStateRestored;
+  if (jobs.has(job.tabId)) return 'A download is already running in this tab';
+  if (job.tables.length === 0) return 'No tables to download';
+
+  const running: DownloadJob = { ...job, current: 0, progress: null };
+  jobs.set(job.tabId, running);
+  if (job.target === 'all') bundles.set(job.tabId, { files: [], tables: [] });
+  saveJobState();
+  log.info('Download job started', { tabId: job.tabId, target: job.target });
+
+  requestTable(running);
+  return null;
+}
+
+// Job state from before a restart; handlers wait for it before reading jobs
+const jobStateRestored = restoreJobState();
+
+/**
+ * Listen for messages from content scripts and the popup
  */
 chrome.runtime.onMessage.addListener(
   (
-    message: TableCountMessage,
+    message: BackgroundMessage,
     sender: chrome.runtime.MessageSender,
-    _sendResponse: (response?: unknown) => void
+    sendResponse: (response?: unknown) => void
   ) => {
     if (message.action === 'updateBadge' && sender.tab?.id !== undefined) {
       const tabId = sender.tab.id;
       const tableCount = message.tableCount;
       updateBadge(tabId, tableCount);
+    } else if (message.action === 'downloadProgress' && sender.tab?.id !== undefined) {
+      handleJobProgress(sender.tab.id, message, sender.documentId);
+    } else if (message.action === 'startDownloadJob') {
+      startDownloadJob(message).then((error) => sendResponse({ error }));
+      return true; // Keep message channel open for async response
+    } else if (message.action === 'getDownloadJob') {
+      jobStateRestored.then(() => sendResponse(jobs.get(message.tabId) ?? null));
+      return true;
     }
   }
 );
+
+// A blob URL is needed until its download ends
+chrome.downloads.onChanged.addListener(async (delta) => {
+  await jobStateRestored;
+  const url = downloadUrls.get(delta.id);
+  const state = delta.state?.current;
+  if (url && (state === 'complete' || state === 'interrupted')) {
+    downloadUrls.delete(delta.id);
+    saveJobState();
+    revokeFileUrl(url);
+  }
+});
+
+// A closed tab takes its job with it
+chrome.tabs.onRemoved.addListener(async (tabId) => {
+  await jobStateRestored;
+  jobs.delete(tabId);
+  if (bundles.delete(tabId)) discardBundleFiles(tabId);
+  saveJobState();
+});
@@ -1,37 +1,160 @@
 /**
  * Table detection logic for NumNom Chrome extension
- * Detects price tables (open/close columns) and dividend tables
+ * Detects price tables (open/close columns) and dividend tables,
+ * in native <table> elements as well as ARIA and div-based grids
  */
 
 import Papa from 'papaparse';
 import { createLogger } from '../shared/logger';
-import type { TableCountMessage, TableType, TablesResponse } from '../shared/types';
+import { normalizeNumber, normalizeNumericColumns } from '../shared/numbers';
+import { DEFAULT_CLEAN_OPTIONS } from '../shared/settings';
 import {
+  findTimezoneInText,
+  getBrowserTimezone,
+  getTodayInTimezone,
+  toISOWithOffset,
+} from '../shared/timezone';
+import type {
+  CleanOptions,
+  CorporateActionOutput,
+  CorporateActionType,
+  DateOrder,
+  DiagnosticsResponse,
+  ManualMapping,
+  SiteProfile,
+  TableCountMessage,
+  TableDiagnosis,
+  TableInfo,
+  TableType,
+  TablesResponse,
+} from '../shared/types';
+import {
+  type CorporateAction,
+  type DateOrderInference,
+  type DateTimeParts,
+  INVALID_DATE,
+  type OptionType,
   extractTimeframe,
+  findExpiryInText,
+  inferDateOrder,
+  isAdjCloseColumn,
   isAmountColumn,
   isAnnouncementDateColumn,
+  isAskColumn,
+  isBidColumn,
+  isChangeColumn,
+  isChangePercentColumn,
   isCloseColumn,
+  isClosingValueColumn,
+  isContractColumn,
   isDateColumn,
+  isDateReportedColumn,
+  isDateTimeColumn,
   isDescriptionColumn,
+  isEpsActualColumn,
+  isEpsEstimateColumn,
   isExDateColumn,
+  isExpiryColumn,
+  isFiscalPeriodColumn,
   isHighColumn,
+  isHolderColumn,
+  isHoldingPercentColumn,
+  isImpliedVolatilityColumn,
   isIndicatorColumn,
+  isInsiderColumn,
+  isLastPriceColumn,
   isLowColumn,
   isOpenColumn,
+  isOpenInterestColumn,
+  isOptionTypeColumn,
   isPaymentDateColumn,
+  isQuotePriceColumn,
+  isRelationColumn,
+  isRevenueActualColumn,
+  isRevenueEstimateColumn,
+  isSharesColumn,
+  isSplitEventColumn,
+  isSplitRatioColumn,
+  isStrikeColumn,
+  isSurprisePercentColumn,
+  isSymbolColumn,
+  isTimeOnlyColumn,
+  isTradePriceColumn,
+  isTransactionPriceColumn,
+  isTransactionTypeColumn,
+  isValueColumn,
+  isVolumeColumn,
+  normalizeFiscalPeriod,
+  normalizeLineItem,
+  normalizeStatementPeriod,
   normalizeTextForExcel,
+  normalizeTransactionType,
+  parseCorporateAction,
   parseDateToISO,
+  parseOptionSymbol,
+  parseOptionType,
+  parseSplitRatio,
+  splitDateTime,
+  tokenize,
 } from '../shared/utils';
+import { buildLogicalGrid, findGrids, getCellText, getGridRows, mergeHeaderRows } from './grid';
+import { type PagerControl, findPager } from './pagination';
+import { findProfileTables } from './profiles';
 import { extractStockTicker } from './ticker';
 
 const log = createLogger('content');
 
+/** Maximum rows searched for a (possibly multi-row) header */
+export const MAX_HEADER_ROWS = 5;
+
+/** Header block of a logical grid: last header row index and composite column names */
+interface HeaderInfo {
+  headerRowIndex: number;
+  headers: string[];
+}
+
+/**
+ * Finds the header block of a logical grid.
+ * Tries rows 0..i merged into composite names ("Price · Open") for growing i,
+ * and returns the first block whose names satisfy the predicate.
+ */
+function findHeaderRows(
+  data: string[][],
+  accept: (headers: string[]) => boolean
+): HeaderInfo | null {
+  const maxHeaderRows = Math.min(MAX_HEADER_ROWS, data.length);
+
+  for (let i = 0; i < maxHeaderRows; i++) {
+    const headers = mergeHeaderRows(data.slice(0, i + 1));
+    if (accept(headers)) {
+      return { headerRowIndex: i, headers };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Checks if a set of column names is an options chain: strike with bid and ask quotes
+ */
+function hasOptionsColumns(columnNames: string[]): boolean {
+  return (
+    columnNames.some(isStrikeColumn) &&
+    columnNames.some(isBidColumn) &&
+    columnNames.some(isAskColumn)
+  );
+}
+
 /**
- * Extracts column names from a table row
+ * Checks if a set of column names is a quote list: a symbol column, a current
+ * price and a change or percent change column
  */
-function getColumnNamesFromRow(row: Element): string[] {
-  const cells = Array.from(row.querySelectorAll('th, td'));
-  return cells.map((cell) => cell.textContent?.trim() || '');
+function hasQuotesColumns(columnNames: string[]): boolean {
+  return (
+    columnNames.some(isSymbolColumn) &&
+    columnNames.some((name) => isQuotePriceColumn(name) && !isChangeColumn(name)) &&
+    columnNames.some(isChangeColumn)
+  );
 }
 
 /**
@@ -46,81 +169,457 @@ function hasAllPriceColumns(columnNames: string[]): boolean {
 }
 
 /**
- * Checks if a table has all OHLC price columns (open, high, low, close)
- * Searches all rows in thead (bottom-up), then falls back to first 5 rows
+ * Checks if a set of column names contains dividend columns (ex-dividend date and amount)
+ * Uses the same column matchers as CSV standardization for consistency.
  */
-function hasPriceColumns(table: HTMLTableElement): boolean {
-  // First, check all rows in thead (bottom-up for multi-row headers)
-  const theadRows = Array.from(table.querySelectorAll('thead tr'));
-  for (let i = theadRows.length - 1; i >= 0; i--) {
-    const row = theadRows[i];
-    if (row) {
-      const columnNames = getColumnNamesFromRow(row);
-      if (hasAllPriceColumns(columnNames)) {
-        return true;
-      }
+function hasDividendColumns(columnNames: string[]): boolean {
+  // Both columns must be present
+  const hasExDate = columnNames.some(isExDateColumn);
+  const hasAmount = columnNames.some(isAmountColumn);
+
+  return hasExDate && hasAmount;
+}
+
+/**
+ * Checks if a set of column names contains earnings columns: an EPS column and
+ * an estimate or surprise column to compare it against
+ */
+function hasEarningsColumns(columnNames: string[]): boolean {
+  const hasEps = columnNames.some(isEpsActualColumn);
+  const hasComparison = columnNames.some(
+    (name) => isEpsEstimateColumn(name) || isSurprisePercentColumn(name)
+  );
+  return hasEps && hasComparison;
+}
+
+/**
+ * Checks if a set of column names contains split columns (a date and a split/bonus ratio).
+ * Many tables have a ratio ("Date | Close | P/E Ratio"), so a plain "Ratio" only counts
+ * beside an ex-date; otherwise a column must name the split, bonus or entitlement.
+ */
+function hasSplitColumns(columnNames: string[]): boolean {
+  const hasExDate = columnNames.some(isExDateColumn);
+  const hasDate = hasExDate || columnNames.some(isDateColumn);
+  const hasRatio = columnNames.some(
+    (name) => isSplitEventColumn(name) || (hasExDate && isPlainRatioColumn(name))
+  );
+  return hasDate && hasRatio;
+}
+
+/**
+ * Checks if a header is just "Ratio", with no word saying what it is a ratio of
+ */
+function isPlainRatioColumn(name: string): boolean {
+  const tokens = tokenize(name);
+  return tokens.size === 1 && tokens.has('ratio');
+}
+
+/**
+ * Checks if a set of column names contains insider transaction columns:
+ * a date, the insider's name and the number of shares traded
+ */
+function hasInsiderColumns(columnNames: string[]): boolean {
+  return (
+    columnNames.some(isDateColumn) &&
+    columnNames.some(isInsiderColumn) &&
+    columnNames.some(isSharesColumn)
+  );
+}
+
+/**
+ * Checks if a set of column names contains holder columns: the holder's name,
+ * shares held and a percent held or value column
+ */
+function hasHoldersColumns(columnNames: string[]): boolean {
+  return (
+    columnNames.some(isHolderColumn) &&
+    columnNames.some(isSharesColumn) &&
+    columnNames.some((name) => isHoldingPercentColumn(name) || isValueColumn(name))
+  );
+}
+
+/** Close-only series are narrow; wider date + price tables are something else */
+const MAX_CLOSE_ONLY_COLUMNS = 6;
+
+/**
+ * Checks if a set of column names is a close-only series: a date and one closing
+ * value (close, NAV, price), with few other columns. Next to a time alone, "Price"
+ * and "Last" are trades ("Time | Price | Size" tapes), so those need a closing column.
+ */
+function hasCloseOnlyColumns(columnNames: string[]): boolean {
+  const named = columnNames.filter((name) => name !== '');
+  const dates = named.filter(isDateTimeColumn);
+  const timesOnly = dates.every(isTimeOnlyColumn);
+  return (
+    named.length <= MAX_CLOSE_ONLY_COLUMNS &&
+    dates.length > 0 &&
+    named.some(
+      (name) =>
+        !isDateTimeColumn(name) &&
+        isClosingValueColumn(name) &&
+        !(timesOnly && isTradePriceColumn(name))
+    )
+  );
+}
+
+/** Statements show several periods side by side */
+const MIN_STATEMENT_PERIODS = 2;
+
+/**
+ * Checks if a set of column names is a financial statement header: a line-item
+ * column followed mostly by period headers ("TTM", "Dec 2023", "FY2022")
+ */
+function hasStatementColumns(columnNames: string[]): boolean {
+  const [labelHeader = '', ...rest] = columnNames;
+  if (normalizeStatementPeriod(labelHeader) !== null) return false;
+
+  const named = rest.filter((name) => name.trim() !== '');
+  const periods = named.filter((name) => normalizeStatementPeriod(name) !== null);
+  return periods.length >= MIN_STATEMENT_PERIODS && periods.length * 2 >= named.length;
+}
+
+/** Label/value tables need a few statistics, in at most this many columns (3 pairs) */
+const MIN_KEYSTATS_PAIRS = 3;
+const MAX_KEYSTATS_COLUMNS = 6;
+
+/**
+ * Checks if rows form a headerless label/value table: an even number of columns
+ * alternating text labels and values, with most values numbers, ranges or dates
+ */
+function hasKeyValueLayout(data: string[][]): boolean {
+  const width = data[0]?.length ?? 0;
+  if (width === 0 || width % 2 !== 0 || width > MAX_KEYSTATS_COLUMNS) return false;
+
+  const pairs = getLabelValuePairs(data);
+  if (pairs.length < MIN_KEYSTATS_PAIRS) return false;
+  if (pairs.some(([label]) => normalizeStatistic(label) !== null)) return false;
+
+  const statistics = pairs.filter(([, value]) => isStatisticValue(value));
+  return statistics.length * 2 > pairs.length;
+}
+
+/** A table or grid element with its detected type */
+export interface DetectedTable {
+  table: Element;
+  type: TableType;
+  profile?: SiteProfile; // saved site profile that mapped the table instead of detection
+}
+
+/**
+ * Finds all tables and grids on the page with a supported type, in document order.
+ * Tables a site profile points at take the profile's type without header detection.
+ */
+export function getDetectedTables(): DetectedTable[] {
+  const profileTables = findProfileTables();
+  return findGrids()
+    .map((table): DetectedTable | null => {
+      const profile = profileTables.get(table);
+      if (profile) return { table, type: profile.mapping.type, profile };
+      const type = getTableType(table);
+      return type ? { table, type } : null;
+    })
+    .filter((item): item is DetectedTable => item !== null);
+}
+
+/**
+ * Checks if a key statistics table is merged into an earlier one. Pages usually split
+ * key statistics into several side-by-side blocks, so the first block stands for all.
+ */
+function isMergedKeyStatsTable(detected: DetectedTable, all: DetectedTable[]): boolean {
+  return (
+    detected.type === 'keystats' && all.find((t) => t.type === 'keystats')?.table !== detected.table
+  );
+}
+
+/**
+ * Reads the data of a detected table; key statistics combine every label/value table
+ */
+export function readDetectedTable(detected: DetectedTable, all: DetectedTable[]): string[][] {
+  if (detected.type !== 'keystats') return tableToArray(detected.table);
+  return all.filter((t) => t.type === 'keystats').flatMap((t) => tableToArray(t.table));
+}
+
+/**
+ * Converts a table or grid to a rectangular 2D array of strings
+ * Expands colspan/rowspan so every row has one value per logical column.
+ * Normalizes Unicode minus signs to ASCII hyphens for Excel compatibility
+ *
+ * @param maxRows - Only read the first rows (e.g. for header detection)
+ */
+export function tableToArray(table: Element, maxRows?: number): string[][] {
+  const rows = getGridRows(table);
+  const logicalGrid = buildLogicalGrid(maxRows === undefined ? rows : rows.slice(0, maxRows));
+  return logicalGrid.map((cells) =>
+    cells.map((cell) => (cell ? normalizeTextForExcel(getCellText(cell)) : ''))
+  );
+}
+
+// ============================================================================
+// Date Columns
+// Parses each date column with one day/month order inferred from all its values
+// ============================================================================
+
+/** Date parsing outcome of a cleaned table, surfaced in the popup */
+export interface DateReport {
+  order: DateOrder | null; // null when the table has no numeric dates
+  ambiguous: boolean;
+  invalidRows: number; // rows with a date that could not be parsed
+}
+
+/** Page-derived hints for interpreting dates, times and option chains */
+export interface PageContext {
+  locale: string; // <html lang>, then browser language
+  timezone: string | null; // timezone mentioned near the table (e.g. "Prices in ET")
+  expiry: string | null; // option expiry near the table (e.g. "Calls for Jan 19, 2024")
+  optionType: OptionType | null; // "Calls"/"Puts" heading of a one-sided option chain
+}
+
+/** How far around a table to look for labels */
+const CONTEXT_SEARCH_ANCESTORS = 3;
+const CONTEXT_SEARCH_SIBLINGS = 5;
+const CONTEXT_SEARCH_TEXT_LIMIT = 500;
+
+/** Headings this short may name the call/put side of an option chain */
+const OPTION_HEADING_MAX_LENGTH = 40;
+
+/**
+ * Collects label texts around a table, nearest first: its aria-label and caption,
+ * then the elements just before it and before its ancestors
+ */
+function getTextsNearTable(table: Element): string[] {
+  const texts: string[] = [table.getAttribute('aria-label') || ''];
+  if (table instanceof HTMLTableElement && table.caption) {
+    texts.push(table.caption.textContent || '');
+  }
+
+  let element: Element | null = table;
+  for (let depth = 0; element && depth < CONTEXT_SEARCH_ANCESTORS; depth++) {
+    let sibling = element.previousElementSibling;
+    for (let i = 0; sibling && i < CONTEXT_SEARCH_SIBLINGS; i++) {
+      texts.push((sibling.textContent || '').slice(0, CONTEXT_SEARCH_TEXT_LIMIT));
+      sibling = sibling.previousElementSibling;
     }
+    element = element.parentElement;
   }
 
-  // Fallback: check first 5 rows of the table (bottom-up, for tables without thead)
-  const allRows = Array.from(table.querySelectorAll('tr')).slice(0, 5);
-  for (let i = allRows.length - 1; i >= 0; i--) {
-    const row = allRows[i];
-    if (row) {
-      const columnNames = getColumnNamesFromRow(row);
-      if (hasAllPriceColumns(columnNames)) {
-        return true;
-      }
+  return texts;
+}
+
+/**
+ * Returns the first value found in the texts (nearest label wins)
+ */
+function findInTexts<T>(texts: string[], find: (text: string) => T | null): T | null {
+  for (const text of texts) {
+    const value = find(text);
+    if (value) return value;
+  }
+  return null;
+}
+
+/**
+ * Collects the page locale and (when a table is given) timezone and option labels near it
+ */
+export function getPageContext(table?: Element): PageContext {
+  const texts = table ? getTextsNearTable(table) : [];
+  return {
+    locale: document.documentElement.lang || navigator.language || '',
+    timezone: findInTexts(texts, findTimezoneInText),
+    expiry: findInTexts(texts, findExpiryInText),
+    optionType: findInTexts(texts, (text) =>
+      text.trim().length <= OPTION_HEADING_MAX_LENGTH ? parseOptionType(text) : null
+    ),
+  };
+}
+
+/**
+ * Infers the day/month order of a date column, unless the order was fixed by hand
+ * (a picked table's mapping or a site profile)
+ */
+function getDateOrder(
+  values: string[],
+  locale: string,
+  fixedOrder: DateOrder | null
+): DateOrderInference {
+  const inference = inferDateOrder(values, locale);
+  return fixedOrder ? { ...inference, order: fixedOrder, ambiguous: false } : inference;
+}
+
+/**
+ * Parses date columns to YYYY-MM-DD using one inferred day/month order per column.
+ * Rows whose key date can't be parsed are dropped; other unreadable dates are blanked.
+ * Both are counted in the report instead of leaking "INVALID_DATE" into the CSV.
+ *
+ * @param keyColumn - Date that identifies a row, or null if no date does
+ * @param fixedOrder - Day/month order to use for every column instead of inferring one
+ */
+function parseDateColumns(
+  rows: string[][],
+  keyColumn: number | null,
+  otherColumns: number[],
+  locale: string,
+  fixedOrder: DateOrder | null = null
+): { rows: string[][]; report: DateReport } {
+  const report: DateReport = { order: null, ambiguous: false, invalidRows: 0 };
+  const parsedRows = rows.map((row) => [...row]);
+  const dateColumns = keyColumn === null ? otherColumns : [keyColumn, ...otherColumns];
+
+  for (const col of dateColumns) {
+    const inference = getDateOrder(
+      parsedRows.map((row) => row[col] || ''),
+      locale,
+      fixedOrder
+    );
+    if (inference.hasNumericDates) {
+      report.order = report.order ?? inference.order;
+      report.ambiguous = report.ambiguous || inference.ambiguous;
+    }
+    for (const row of parsedRows) {
+      row[col] = parseDateToISO(row[col] || '', inference.order);
     }
   }
 
-  return false;
+  const validRows = parsedRows.filter((row) => {
+    const invalidColumns = dateColumns.filter((col) => row[col] === INVALID_DATE);
+    if (invalidColumns.length === 0) return true;
+
+    report.invalidRows++;
+    for (const col of invalidColumns) {
+      row[col] = '';
+    }
+    return keyColumn === null || !invalidColumns.includes(keyColumn);
+  });
+
+  return { rows: validRows, report };
 }
 
 /**
- * Checks if a table has dividend columns (ex-dividend date and amount)
- * Uses the same column matchers as CSV standardization for consistency.
+ * Parses an intraday date-time column to ISO 8601 timestamps with offsets.
+ * Time-only cells ("9:30 AM") take the date of the closest row above that had one,
+ * or today's date in the zone for tables that only show times. Date-only rows act
+ * as day separators and are dropped; unreadable rows are dropped and counted.
  */
-function hasDividendColumns(table: HTMLTableElement): boolean {
-  const headerCells = Array.from(
-    table.querySelectorAll('thead th, thead td, tr:first-child th, tr:first-child td')
+function parseDateTimeColumn(
+  rows: string[][],
+  column: number,
+  locale: string,
+  timezone: string,
+  fixedOrder: DateOrder | null = null
+): { rows: string[][]; report: DateReport } {
+  const parts = rows.map((row) => splitDateTime(row[column] || ''));
+  const inference = getDateOrder(
+    parts.map(({ datePart }) => datePart),
+    locale,
+    fixedOrder
   );
+  const report: DateReport = {
+    order: inference.hasNumericDates ? inference.order : null,
+    ambiguous: inference.hasNumericDates && inference.ambiguous,
+    invalidRows: 0,
+  };
 
-  const columnNames = headerCells.map((cell) => cell.textContent?.trim() || '');
+  let lastDate = '';
+  const parsedRows: string[][] = [];
 
-  // Both columns must be present
-  const hasExDate = columnNames.some(isExDateColumn);
-  const hasAmount = columnNames.some(isAmountColumn);
+  rows.forEach((row, i) => {
+    const { datePart, time, zone } = parts[i] as DateTimeParts;
+    const rowZone = zone ?? timezone;
+    const date = datePart
+      ? parseDateToISO(datePart, inference.order)
+      : lastDate || getTodayInTimezone(rowZone);
 
-  return hasExDate && hasAmount;
+    if (date === INVALID_DATE) {
+      report.invalidRows++;
+      return;
+    }
+    lastDate = date;
+    if (!time) return;
+
+    const parsed = [...row];
+    parsed[column] = toISOWithOffset(date, time, rowZone);
+    parsedRows.push(parsed);
+  });
+
+  return { rows: parsedRows, report };
 }
 
+// ============================================================================
+// Column Claiming
+// Shared by every table type's column standardization
+// ============================================================================
+
+/** A standard column and the header matcher that claims it */
+interface ColumnMatcher<T extends string> {
+  name: T;
+  matcher: (name: string) => boolean;
+}
+
+/** Maps standard column names to their source column index */
+type ColumnMapping<T extends string> = Partial<Record<T, number>> & {
+  extras: number[]; // indexes of unmatched columns
+};
+
 /**
- * Determines the type of table based on its columns
+ * Maps source column headers to standard columns using priority-based claiming.
+ * Each matcher, in order, claims the first unclaimed header it matches, so earlier
+ * matchers win conflicts. All unclaimed columns go to extras.
  */
-export function getTableType(table: HTMLTableElement): TableType | null {
-  if (hasPriceColumns(table)) {
-    return 'price';
-  }
-  if (hasDividendColumns(table)) {
-    return 'dividend';
+function claimColumns<T extends string>(
+  headers: string[],
+  matchers: ColumnMatcher<T>[]
+): ColumnMapping<T> {
+  const claimed = new Set<number>();
+  const mapping = {} as Record<T, number>;
+
+  // Process each target column in priority order
+  for (const { name, matcher } of matchers) {
+    for (let i = 0; i < headers.length; i++) {
+      if (!claimed.has(i) && matcher(headers[i] || '')) {
+        mapping[name] = i;
+        claimed.add(i);
+        break;
+      }
+    }
   }
-  return null;
+
+  // All unclaimed columns go to extras
+  const extras = headers.map((_, i) => i).filter((i) => !claimed.has(i));
+
+  return { ...mapping, extras };
 }
 
 /**
- * Converts an HTML table to a 2D array of strings
- * Normalizes Unicode minus signs to ASCII hyphens for Excel compatibility
+ * Reads the header block chosen on the mapping screen instead of searching for one.
+ * Without header rows every column is unnamed and all rows are data.
  */
-export function tableToArray(table: HTMLTableElement): string[][] {
-  const rows = Array.from(table.querySelectorAll('tr'));
-  return rows.map((row) => {
-    const cells = Array.from(row.querySelectorAll('th, td'));
-    return cells.map((cell) => {
-      const text = cell.textContent?.trim() || '';
-      return normalizeTextForExcel(text);
-    });
-  });
+function getManualHeader(data: string[][], manual: ManualMapping): HeaderInfo {
+  const width = data[0]?.length ?? 0;
+  const merged = manual.headerRows > 0 ? mergeHeaderRows(data.slice(0, manual.headerRows)) : [];
+  return {
+    headerRowIndex: manual.headerRows - 1,
+    headers: Array.from({ length: width }, (_, i) => merged[i] ?? ''),
+  };
+}
+
+/**
+ * Builds a column mapping from the user's choices instead of claiming by header name.
+ * sourceColumns lists the source index of each column in the rows being cleaned,
+ * so mappings still line up after columns are dropped; unassigned columns go to extras.
+ */
+function applyManualMapping<T extends string>(
+  manual: ManualMapping,
+  names: readonly T[],
+  sourceColumns: number[]
+): ColumnMapping<T> {
+  const mapping = {} as Record<T, number>;
+  for (const name of names) {
+    const position = sourceColumns.indexOf(manual.columns[name] ?? -1);
+    if (position !== -1) mapping[name] = position;
+  }
+
+  const claimed = new Set<number>(Object.values(mapping));
+  const extras = sourceColumns.map((_, i) => i).filter((i) => !claimed.has(i));
+
+  return { ...mapping, extras };
 }
 
 // ============================================================================
@@ -153,7 +652,7 @@ interface DividendColumnMapping {
 }
 
 /** Column matchers in priority order */
-const COLUMN_MATCHERS: { name: DividendColumnName; matcher: (name: string) => boolean }[] = [
+const COLUMN_MATCHERS: ColumnMatcher<DividendColumnName>[] = [
   { name: 'ex_date', matcher: isExDateColumn },
   { name: 'amount', matcher: isAmountColumn },
   { name: 'indicator', matcher: isIndicatorColumn },
@@ -168,34 +667,21 @@ const COLUMN_MATCHERS: { name: DividendColumnName; matcher: (name: string) => bo
  * is claimed as ex_date before "Dividend" can be claimed as amount).
  */
 function mapDividendColumns(headers: string[]): DividendColumnMapping {
-  const claimed = new Set<number>();
-  const mapping: Partial<DividendColumnMapping> = { extras: [] };
-
-  // Process each target column in priority order
-  for (const { name, matcher } of COLUMN_MATCHERS) {
-    for (let i = 0; i < headers.length; i++) {
-      if (!claimed.has(i) && matcher(headers[i] || '')) {
-        mapping[name] = i;
-        claimed.add(i);
-        break;
-      }
-    }
-  }
-
-  // All unclaimed columns go to extras
-  mapping.extras = headers.map((_, i) => i).filter((i) => !claimed.has(i));
-
-  return mapping as DividendColumnMapping;
+  return claimColumns(headers, COLUMN_MATCHERS) as DividendColumnMapping;
 }
 
 /**
- * Converts a header name to a snake_case key for JSON extras.
- * Example: "Financial Year" -> "financial_year"
+ * Converts a header name to a snake_case key for JSON extras. Letters of any script
+ * are kept, so non-English headers keep a readable key.
+ * Example: "Financial Year" -> "financial_year", "Day's Range" -> "days_range",
+ * "Eröffnung" -> "eröffnung", "配当利回り" -> "配当利回り"
  */
 function toSnakeCase(header: string): string {
   return header
+    .normalize('NFC')
     .toLowerCase()
-    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/['’]/g, '')
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, '_')
     .replace(/^_|_$/g, '');
 }
 
@@ -208,7 +694,8 @@ function buildExtrasJson(row: string[], headers: string[], extrasIndexes: number
 
   const extras: Record<string, string> = {};
   for (const i of extrasIndexes) {
-    const key = toSnakeCase(headers[i] || `col_${i}`);
+    // Headers of only symbols ("%", "—") still need a key
+    const key = toSnakeCase(headers[i] || '') || `col_${i}`;
     const value = row[i] || '';
     if (key && value) {
       extras[key] = value;
@@ -230,18 +717,18 @@ function reorderDividendRow(
 ): string[] {
   const result: string[] = [];
 
-  // Add columns in standard order (parse date columns to YYYY-MM-DD)
-  result.push(parseDateToISO(row[mapping.ex_date] || ''));
+  // Add columns in standard order (date columns are already YYYY-MM-DD)
+  result.push(row[mapping.ex_date] || '');
   result.push(row[mapping.amount] || '');
 
   if (mapping.indicator !== undefined) {
     result.push(row[mapping.indicator] || '');
   }
   if (mapping.announcement_date !== undefined) {
-    result.push(parseDateToISO(row[mapping.announcement_date] || ''));
+    result.push(row[mapping.announcement_date] || '');
   }
   if (mapping.payment_date !== undefined) {
-    result.push(parseDateToISO(row[mapping.payment_date] || ''));
+    result.push(row[mapping.payment_date] || '');
   }
   if (mapping.description !== undefined) {
     result.push(row[mapping.description] || '');
@@ -270,22 +757,44 @@ function buildStandardizedHeader(mapping: DividendColumnMapping): string[] {
   return header;
 }
 
+/** Result from cleaning dividend data, includes the date parsing report */
+export interface CleanDividendDataResult {
+  data: string[][];
+  dates: DateReport;
+}
+
 /**
- * Cleans dividend table data by:
+ * Cleans dividend table data (a logical grid from tableToArray) by:
  * 1. Removing columns that only contain "view"
  * 2. Standardizing column order and names
  * 3. Converting unmatched columns to JSON extras
  * 4. Removing rows without dividend amounts
+ * 5. Optionally normalizing amount and extras to plain numbers
+ * 6. Parsing date columns with a per-column day/month order
+ *
+ * @param manual - Column mapping chosen on the mapping screen, used instead of header matching
  */
-export function cleanDividendData(data: string[][]): string[][] {
-  if (data.length === 0) return data;
-
-  const headerRow = data[0];
-  if (!headerRow) return data;
-
-  const dataRows = data.slice(1);
-
-  // Step 1: Identify columns to keep (remove "view" columns)
+export function cleanDividendData(
+  data: string[][],
+  options: CleanOptions = DEFAULT_CLEAN_OPTIONS,
+  context: PageContext = getPageContext(),
+  manual?: ManualMapping
+): CleanDividendDataResult {
+  const emptyReport: DateReport = { order: null, ambiguous: false, invalidRows: 0 };
+  if (data.length === 0) return { data, dates: emptyReport };
+
+  // Find the (possibly multi-row) header, falling back to the first row
+  const headerInfo = manual
+    ? getManualHeader(data, manual)
+    : (findHeaderRows(data, hasDividendColumns) ?? {
+        headerRowIndex: 0,
+        headers: data[0] || [],
+      });
+  const headerRow = headerInfo.headers;
+  const dataRows = data.slice(headerInfo.headerRowIndex + 1);
+  const assigned = new Set(Object.values(manual?.columns ?? {}));
+
+  // Step 1: Identify columns to keep (remove "view" columns the user didn't assign)
   const columnsToKeep: number[] = [];
   for (let colIndex = 0; colIndex < headerRow.length; colIndex++) {
     // Check if this column contains only "view" (case-insensitive) or empty values
@@ -294,184 +803,1332 @@ export function cleanDividendData(data: string[][]): string[][] {
       return cell !== 'view' && cell !== '';
     });
 
-    if (hasNonViewContent) {
+    if (hasNonViewContent || assigned.has(colIndex)) {
       columnsToKeep.push(colIndex);
     }
   }
 
   // Step 2: Filter out "view" columns
   const filteredHeader = columnsToKeep.map((i) => headerRow[i] || '');
-  const filteredRows = dataRows.map((row) => columnsToKeep.map((i) => row[i] || ''));
+  let filteredRows = dataRows.map((row) => columnsToKeep.map((i) => row[i] || ''));
 
   // Step 3: Map columns to standard names using priority-based claiming
-  const mapping = mapDividendColumns(filteredHeader);
+  const mapping = manual
+    ? (applyManualMapping(manual, DIVIDEND_COLUMNS, columnsToKeep) as DividendColumnMapping)
+    : mapDividendColumns(filteredHeader);
+
+  // Optional: normalize numeric cells (amount and extras; dates and text are left alone)
+  if (options.normalizeNumbers) {
+    filteredRows = normalizeNumericColumns(filteredRows, [mapping.amount, ...mapping.extras]);
+  }
   const includeExtras = mapping.extras.length > 0;
 
   // Step 4: Build standardized header
   const standardHeader = buildStandardizedHeader(mapping);
 
-  // Step 5: Reorder data rows and filter out rows without amount values
-  const standardizedRows = filteredRows
-    .filter((row) => {
-      // Remove rows without valid amount values
-      const amountValue = row[mapping.amount]?.trim();
-      return amountValue !== '' && amountValue !== '-';
-    })
-    .map((row) => reorderDividendRow(row, filteredHeader, mapping, includeExtras));
+  // Step 5: Filter out rows without amount values
+  const rowsWithAmount = filteredRows.filter((row) => {
+    const amountValue = row[mapping.amount]?.trim();
+    return amountValue !== '' && amountValue !== '-';
+  });
+
+  // Step 6: Parse date columns (ex-date is the key; rows without a readable one are dropped)
+  const otherDateColumns = [mapping.announcement_date, mapping.payment_date].filter(
+    (i): i is number => i !== undefined
+  );
+  const { rows: datedRows, report } = parseDateColumns(
+    rowsWithAmount,
+    mapping.ex_date,
+    otherDateColumns,
+    context.locale,
+    manual?.dateOrder
+  );
 
-  return [standardHeader, ...standardizedRows];
+  // Step 7: Reorder data rows
+  const standardizedRows = datedRows.map((row) =>
+    reorderDividendRow(row, filteredHeader, mapping, includeExtras)
+  );
+
+  return { data: [standardHeader, ...standardizedRows], dates: report };
 }
 
 // ============================================================================
-// Price Column Standardization
-// Reorders columns to: date, open, high, low, close, extras (JSON for unmatched)
+// Split Column Standardization
+// Reorders columns to: ex_date, numerator, denominator, description, extras
+// (JSON for unmatched columns)
 // ============================================================================
 
-/** Standard price column names in output order */
-const PRICE_COLUMNS = ['date', 'open', 'high', 'low', 'close'] as const;
-
-type PriceColumnName = (typeof PRICE_COLUMNS)[number];
+type SplitColumnName = 'ex_date' | 'ratio' | 'description';
 
-/** Maps standard column names to their source column index */
-interface PriceColumnMapping {
-  date: number; // required
-  open: number; // required
-  high: number; // required
-  low: number; // required
-  close: number; // required
-  extras: number[]; // indexes of unmatched columns
-}
+type SplitColumnMapping = ColumnMapping<SplitColumnName>;
 
-/** Column matchers for price tables */
-const PRICE_COLUMN_MATCHERS: { name: PriceColumnName; matcher: (name: string) => boolean }[] = [
-  { name: 'date', matcher: isDateColumn },
-  { name: 'open', matcher: isOpenColumn },
-  { name: 'high', matcher: isHighColumn },
-  { name: 'low', matcher: isLowColumn },
-  { name: 'close', matcher: isCloseColumn },
+/** Split column matchers in priority order */
+const SPLIT_COLUMN_MATCHERS: ColumnMatcher<SplitColumnName>[] = [
+  { name: 'ex_date', matcher: isExDateColumn },
+  { name: 'ratio', matcher: isSplitRatioColumn },
+  { name: 'description', matcher: isDescriptionColumn },
 ];
 
 /**
- * Maps source column headers to standard price columns using priority-based claiming.
+ * Maps source column headers to split columns using priority-based claiming.
+ * Without an ex-date header, the first other date column ("Date", "Split Date") is used.
  */
-function mapPriceColumns(headers: string[]): Partial<PriceColumnMapping> {
-  const claimed = new Set<number>();
-  const mapping: Partial<PriceColumnMapping> = { extras: [] };
-
-  // Process each target column in priority order
-  for (const { name, matcher } of PRICE_COLUMN_MATCHERS) {
-    for (let i = 0; i < headers.length; i++) {
-      if (!claimed.has(i) && matcher(headers[i] || '')) {
-        mapping[name] = i;
-        claimed.add(i);
-        break;
-      }
+function mapSplitColumns(headers: string[]): SplitColumnMapping {
+  const mapping = claimColumns(headers, SPLIT_COLUMN_MATCHERS);
+  if (mapping.ex_date === undefined) {
+    const dateIndex = mapping.extras.find((i) => isDateColumn(headers[i] || ''));
+    if (dateIndex !== undefined) {
+      mapping.ex_date = dateIndex;
+      mapping.extras = mapping.extras.filter((i) => i !== dateIndex);
     }
   }
-
-  // All unclaimed columns go to extras
-  mapping.extras = headers.map((_, i) => i).filter((i) => !claimed.has(i));
-
   return mapping;
 }
 
 /**
- * Checks if a mapping has all required OHLC columns (not including date).
+ * Parses a split or bonus ratio cell into new shares per old shares.
+ * Bonus ratios count only the added shares ("1:2 bonus" = 1 bonus share per 2 held),
+ * so they are converted to the equivalent split (3 for 2).
  */
-function hasRequiredOHLCColumns(mapping: Partial<PriceColumnMapping>): boolean {
-  return (
-    mapping.open !== undefined &&
-    mapping.high !== undefined &&
-    mapping.low !== undefined &&
-    mapping.close !== undefined
-  );
+function parseRatioCell(
+  text: string,
+  bonus: boolean
+): { numerator: string; denominator: string } | null {
+  const ratio = parseSplitRatio(text);
+  if (!ratio || !bonus) return ratio;
+
+  const total = Number(ratio.numerator) + Number(ratio.denominator);
+  return { numerator: String(total), denominator: ratio.denominator };
+}
+
+/** Result from cleaning split data, includes the date parsing report */
+export interface CleanSplitDataResult {
+  data: string[][];
+  dates: DateReport;
 }
 
 /**
- * Finds the header row that contains OHLC columns.
- * Tables may have multi-row headers where OHLC columns are in a different row than row 0.
+ * Cleans stock split / bonus issue table data (a logical grid from tableToArray) by:
+ * 1. Standardizing columns to ex_date, numerator, denominator, description
+ * 2. Parsing ratios like "3-for-2", "1:10" or "2 for 1" (bonus ratios converted to splits)
+ * 3. Converting unmatched columns to JSON extras
+ * 4. Removing rows without a ratio
+ * 5. Optionally normalizing extras to plain numbers
+ * 6. Parsing the ex-date column with one day/month order
+ *
+ * The description is the source description column if present, else the ratio text.
  */
-function findOHLCHeaderRow(
-  data: string[][]
-): { headerRowIndex: number; mapping: Partial<PriceColumnMapping> } | null {
-  const maxHeaderRows = Math.min(5, data.length);
+export function cleanSplitData(
+  data: string[][],
+  options: CleanOptions = DEFAULT_CLEAN_OPTIONS,
+  context: PageContext = getPageContext()
+): CleanSplitDataResult {
+  const emptyReport: DateReport = { order: null, ambiguous: false, invalidRows: 0 };
+  if (data.length === 0) return { data, dates: emptyReport };
+
+  // Find the (possibly multi-row) header, falling back to the first row
+  const headerInfo = findHeaderRows(data, hasSplitColumns) ?? {
+    headerRowIndex: 0,
+    headers: data[0] || [],
+  };
+  const { headers } = headerInfo;
+  const mapping = mapSplitColumns(headers);
+  const { ex_date: exDateColumn, ratio: ratioColumn } = mapping;
+  if (exDateColumn === undefined || ratioColumn === undefined) {
+    return { data, dates: emptyReport };
+  }
 
-  for (let i = 0; i < maxHeaderRows; i++) {
-    const row = data[i];
-    if (!row) continue;
+  let dataRows = data.slice(headerInfo.headerRowIndex + 1);
 
-    const mapping = mapPriceColumns(row);
-    if (hasRequiredOHLCColumns(mapping)) {
-      return { headerRowIndex: i, mapping };
-    }
+  // Optional: normalize numeric cells (extras only; ratios are parsed below)
+  if (options.normalizeNumbers) {
+    dataRows = normalizeNumericColumns(dataRows, mapping.extras);
   }
 
-  return null;
-}
+  // Remove rows without a ratio value
+  const rowsWithRatio = dataRows.filter((row) => {
+    const ratioValue = row[ratioColumn]?.trim();
+    return ratioValue !== '' && ratioValue !== '-';
+  });
+
+  const { rows: datedRows, report } = parseDateColumns(
+    rowsWithRatio,
+    exDateColumn,
+    [],
+    context.locale
+  );
+
+  const bonusHeader = tokenize(headers[ratioColumn] || '').has('bonus');
+  const includeExtras = mapping.extras.length > 0;
+
+  const standardHeader = ['ex_date', 'numerator', 'denominator', 'description'];
+  if (includeExtras) standardHeader.push('extras');
+
+  const standardizedRows = datedRows.map((row) => {
+    const ratioText = row[ratioColumn]?.trim() || '';
+    const bonus = bonusHeader || tokenize(ratioText).has('bonus');
+    const ratio = parseRatioCell(ratioText, bonus);
+    const description =
+      mapping.description !== undefined ? row[mapping.description] || '' : ratioText;
+
+    const result = [
+      row[exDateColumn] || '',
+      ratio?.numerator || '',
+      ratio?.denominator || '',
+      description,
+    ];
+    if (includeExtras) {
+      result.push(buildExtrasJson(row, headers, mapping.extras));
+    }
+    return result;
+  });
+
+  return { data: [standardHeader, ...standardizedRows], dates: report };
+}
+
+// ============================================================================
+// Earnings Column Standardization
+// Reorders columns to: report_date, fiscal_period, eps_estimate, eps_actual,
+// surprise_pct, revenue_estimate, revenue_actual, extras (JSON for unmatched)
+// Only columns present in the source table are included
+// ============================================================================
+
+/** Standard earnings column names in output order */
+const EARNINGS_COLUMNS = [
+  'report_date',
+  'fiscal_period',
+  'eps_estimate',
+  'eps_actual',
+  'surprise_pct',
+  'revenue_estimate',
+  'revenue_actual',
+] as const;
+
+type EarningsColumnName = (typeof EARNINGS_COLUMNS)[number];
+
+type EarningsColumnMapping = ColumnMapping<EarningsColumnName>;
+
+/**
+ * Earnings column matchers in priority order. Fiscal period comes before report
+ * date so "Fiscal Quarter End Date" is not read as the report date, and estimates
+ * come before actuals since the actual matchers also match estimate names.
+ */
+const EARNINGS_COLUMN_MATCHERS: ColumnMatcher<EarningsColumnName>[] = [
+  { name: 'fiscal_period', matcher: isFiscalPeriodColumn },
+  { name: 'report_date', matcher: isDateColumn },
+  { name: 'eps_estimate', matcher: isEpsEstimateColumn },
+  { name: 'eps_actual', matcher: isEpsActualColumn },
+  { name: 'surprise_pct', matcher: isSurprisePercentColumn },
+  { name: 'revenue_estimate', matcher: isRevenueEstimateColumn },
+  { name: 'revenue_actual', matcher: isRevenueActualColumn },
+];
+
+/**
+ * Maps source column headers to earnings columns using priority-based claiming.
+ */
+function mapEarningsColumns(headers: string[]): EarningsColumnMapping {
+  return claimColumns(headers, EARNINGS_COLUMN_MATCHERS);
+}
+
+/**
+ * Removes a report time from a date cell: "Oct 30, 2024, 4 PM EDT" → "Oct 30, 2024"
+ */
+function stripReportTime(value: string): string {
+  return splitDateTime(value)
+    .datePart.replace(/,?\s+\d{1,2}\s*[ap]\.?m\.?(?:\s+[a-z]{1,5})?$/i, '')
+    .trim();
+}
+
+/** Result from cleaning earnings data, includes the date parsing report */
+export interface CleanEarningsDataResult {
+  data: string[][];
+  dates: DateReport;
+}
+
+/**
+ * Cleans earnings table data (a logical grid from tableToArray) by:
+ * 1. Standardizing column order and names (report_date, fiscal_period, EPS, surprise, revenue)
+ * 2. Normalizing fiscal period labels ("Q3 2024", "FY24 Q3" → "2024-Q3")
+ * 3. Parsing report dates to YYYY-MM-DD (report times are dropped)
+ * 4. Converting surprise percentages to plain numbers ("+12.5%" → "12.5")
+ * 5. Converting unmatched columns to JSON extras
+ * 6. Optionally normalizing EPS, revenue and extras to plain numbers
+ *
+ * Upcoming quarters (estimate only, no reported EPS yet) are kept.
+ */
+export function cleanEarningsData(
+  data: string[][],
+  options: CleanOptions = DEFAULT_CLEAN_OPTIONS,
+  context: PageContext = getPageContext()
+): CleanEarningsDataResult {
+  const emptyReport: DateReport = { order: null, ambiguous: false, invalidRows: 0 };
+  if (data.length === 0) return { data, dates: emptyReport };
+
+  // Find the (possibly multi-row) header, falling back to the first row
+  const headerInfo = findHeaderRows(data, hasEarningsColumns) ?? {
+    headerRowIndex: 0,
+    headers: data[0] || [],
+  };
+  const { headers } = headerInfo;
+  const mapping = mapEarningsColumns(headers);
+  const columns = EARNINGS_COLUMNS.filter((name) => mapping[name] !== undefined);
+  const indexes = columns.map((name) => mapping[name] as number);
+
+  let dataRows = data.slice(headerInfo.headerRowIndex + 1);
+
+  // Optional: normalize numeric cells (EPS, revenue and extras)
+  if (options.normalizeNumbers) {
+    const numericColumns = [
+      mapping.eps_estimate,
+      mapping.eps_actual,
+      mapping.revenue_estimate,
+      mapping.revenue_actual,
+    ].filter((i): i is number => i !== undefined);
+    dataRows = normalizeNumericColumns(dataRows, [...numericColumns, ...mapping.extras]);
+  }
+
+  // Remove rows without any EPS value
+  const epsColumns = [mapping.eps_estimate, mapping.eps_actual].filter(
+    (i): i is number => i !== undefined
+  );
+  dataRows = dataRows.filter((row) =>
+    epsColumns.some((i) => {
+      const value = row[i]?.trim();
+      return value !== '' && value !== '-';
+    })
+  );
+
+  // Fiscal periods and surprise percentages are always normalized
+  dataRows = dataRows.map((row) => {
+    const cleaned = [...row];
+    if (mapping.fiscal_period !== undefined) {
+      cleaned[mapping.fiscal_period] = normalizeFiscalPeriod(row[mapping.fiscal_period] || '');
+    }
+    if (mapping.surprise_pct !== undefined) {
+      cleaned[mapping.surprise_pct] = normalizeNumber(row[mapping.surprise_pct] || '');
+    }
+    if (mapping.report_date !== undefined) {
+      cleaned[mapping.report_date] = stripReportTime(row[mapping.report_date] || '');
+    }
+    return cleaned;
+  });
+
+  // Parse report dates; with a fiscal period identifying each row, an unreadable
+  // report date is only blanked instead of dropping the row
+  let report = emptyReport;
+  if (mapping.report_date !== undefined) {
+    const hasPeriod = mapping.fiscal_period !== undefined;
+    const parsed = parseDateColumns(
+      dataRows,
+      hasPeriod ? null : mapping.report_date,
+      hasPeriod ? [mapping.report_date] : [],
+      context.locale
+    );
+    dataRows = parsed.rows;
+    report = parsed.report;
+  }
+
+  const includeExtras = mapping.extras.length > 0;
+  const standardHeader: string[] = [...columns];
+  if (includeExtras) standardHeader.push('extras');
+
+  const standardizedRows = dataRows.map((row) => {
+    const result = indexes.map((i) => row[i] || '');
+    if (includeExtras) {
+      result.push(buildExtrasJson(row, headers, mapping.extras));
+    }
+    return result;
+  });
+
+  return { data: [standardHeader, ...standardizedRows], dates: report };
+}
+
+// ============================================================================
+// Financial Statement Standardization
+// Line items in rows, fiscal periods in columns. Exported either wide
+// (line_item, period...) or long (period, line_item, value)
+// ============================================================================
+
+/** Result from cleaning statement data, includes the period header date order */
+export interface CleanStatementDataResult {
+  data: string[][];
+  dates: DateReport;
+}
+
+/**
+ * Checks if a statement cell holds a value (not blank or a dash placeholder)
+ */
+function hasStatementValue(value: string): boolean {
+  return value !== '' && value !== '-';
+}
+
+/**
+ * Cleans financial statement data (a logical grid from tableToArray) by:
+ * 1. Normalizing period headers ("12/31/2023" → "2023-12-31", "Dec 2023" → "2023-12", "TTM")
+ * 2. Normalizing line-item labels (footnote markers, expand glyphs, whitespace)
+ * 3. Dropping section headings and other rows without any values
+ * 4. Optionally normalizing values to plain numbers
+ * 5. Exporting the wide layout, or one row per value when options.statementLayout is 'long'
+ *
+ * The first column holds line items; columns without a period header are left out.
+ */
+export function cleanStatementData(
+  data: string[][],
+  options: CleanOptions = DEFAULT_CLEAN_OPTIONS,
+  context: PageContext = getPageContext()
+): CleanStatementDataResult {
+  const emptyReport: DateReport = { order: null, ambiguous: false, invalidRows: 0 };
+  const headerInfo = findHeaderRows(data, hasStatementColumns);
+  if (!headerInfo) return { data, dates: emptyReport };
+
+  // Read numeric period headers ("12/31/2023") with one day/month order
+  const { headers } = headerInfo;
+  const inference = inferDateOrder(headers.slice(1), context.locale);
+  const periods = headers.map((header, i) =>
+    i === 0 ? null : normalizeStatementPeriod(header, inference.order)
+  );
+  const periodColumns = headers.map((_, i) => i).filter((i) => periods[i] !== null);
+  const periodNames = periodColumns.map((i) => periods[i] as string);
+
+  let dataRows = data.slice(headerInfo.headerRowIndex + 1);
+
+  // Optional: normalize numeric cells (every period column)
+  if (options.normalizeNumbers) {
+    dataRows = normalizeNumericColumns(dataRows, periodColumns);
+  }
+
+  const items = dataRows
+    .map((row) => ({
+      label: normalizeLineItem(row[0] || ''),
+      values: periodColumns.map((i) => row[i]?.trim() || ''),
+    }))
+    .filter((item) => item.label && item.values.some(hasStatementValue));
+
+  const report: DateReport = {
+    order: inference.hasNumericDates ? inference.order : null,
+    ambiguous: inference.hasNumericDates && inference.ambiguous,
+    invalidRows: 0,
+  };
+
+  if (options.statementLayout === 'long') {
+    const longRows = periodNames.flatMap((period, p) =>
+      items
+        .filter((item) => hasStatementValue(item.values[p] || ''))
+        .map((item) => [period, item.label, item.values[p] || ''])
+    );
+    return { data: [['period', 'line_item', 'value'], ...longRows], dates: report };
+  }
+
+  const wideRows = items.map((item) => [item.label, ...item.values]);
+  return { data: [['line_item', ...periodNames], ...wideRows], dates: report };
+}
+
+// ============================================================================
+// Options Chain Standardization
+// Reorders columns to: type, expiry, strike, bid, ask, last, volume,
+// open_interest, iv, extras (JSON for unmatched columns)
+// Calls and puts shown side by side around the strike become separate rows
+// ============================================================================
+
+/** Standard option value columns in output order (after type, expiry and strike) */
+const OPTION_VALUE_COLUMNS = ['bid', 'ask', 'last', 'volume', 'open_interest', 'iv'] as const;
+
+type OptionValueColumnName = (typeof OPTION_VALUE_COLUMNS)[number];
+
+type OptionColumnName = OptionValueColumnName | 'type' | 'expiry' | 'contract';
+
+/**
+ * Option column matchers in priority order. Implied volatility is claimed before
+ * volume since "Imp Vol" also reads as volume.
+ */
+const OPTION_COLUMN_MATCHERS: ColumnMatcher<OptionColumnName>[] = [
+  { name: 'contract', matcher: isContractColumn },
+  { name: 'expiry', matcher: isExpiryColumn },
+  { name: 'type', matcher: isOptionTypeColumn },
+  { name: 'bid', matcher: isBidColumn },
+  { name: 'ask', matcher: isAskColumn },
+  { name: 'last', matcher: isLastPriceColumn },
+  { name: 'iv', matcher: isImpliedVolatilityColumn },
+  { name: 'open_interest', matcher: isOpenInterestColumn },
+  { name: 'volume', matcher: isVolumeColumn },
+];
+
+/** One side of an option chain: its column mapping and fixed call/put type, if known */
+interface OptionSide {
+  mapping: ColumnMapping<OptionColumnName>;
+  type: OptionType | null;
+}
+
+/**
+ * Claims option columns among a subset of the headers (one side of the chain).
+ * The contract symbol is only read for type and expiry, so it stays in extras too.
+ */
+function mapOptionColumns(headers: string[], indexes: number[]): ColumnMapping<OptionColumnName> {
+  const local = claimColumns(
+    indexes.map((i) => headers[i] || ''),
+    OPTION_COLUMN_MATCHERS
+  );
+  const mapping: ColumnMapping<OptionColumnName> = {
+    extras: local.extras.map((i) => indexes[i] as number),
+  };
+  for (const { name } of OPTION_COLUMN_MATCHERS) {
+    const index = local[name];
+    if (index !== undefined) mapping[name] = indexes[index];
+  }
+  if (mapping.contract !== undefined) {
+    mapping.extras = [mapping.contract, ...mapping.extras].sort((a, b) => a - b);
+  }
+  return mapping;
+}
+
+/**
+ * Splits the chain's columns into sides. A chain with quote columns on both sides
+ * of the strike is mirrored: calls on the left, puts on the right (unless the group
+ * headers say otherwise). Otherwise the whole table is one side.
+ */
+function getOptionSides(headers: string[], strikeColumn: number): OptionSide[] {
+  const columns = headers.map((_, i) => i).filter((i) => i !== strikeColumn);
+  const left = columns.filter((i) => i < strikeColumn);
+  const right = columns.filter((i) => i > strikeColumn);
+  const leftMapping = mapOptionColumns(headers, left);
+  const rightMapping = mapOptionColumns(headers, right);
+
+  const hasQuotes = (mapping: ColumnMapping<OptionColumnName>) =>
+    mapping.bid !== undefined || mapping.ask !== undefined || mapping.last !== undefined;
+
+  if (!hasQuotes(leftMapping) || !hasQuotes(rightMapping)) {
+    return [{ mapping: mapOptionColumns(headers, columns), type: null }];
+  }
+
+  const leftType = parseOptionType(left.map((i) => headers[i]).join(' '));
+  const rightType = parseOptionType(right.map((i) => headers[i]).join(' '));
+  const putsFirst = leftType === 'put' || rightType === 'call';
+  return [
+    { mapping: leftMapping, type: putsFirst ? 'put' : 'call' },
+    { mapping: rightMapping, type: putsFirst ? 'call' : 'put' },
+  ];
+}
+
+/**
+ * Reads the call/put type of a one-sided chain row: type column, contract symbol,
+ * then a "Calls"/"Puts" in the headers or near the table
+ */
+function getRowOptionType(
+  row: string[],
+  mapping: ColumnMapping<OptionColumnName>,
+  headerType: OptionType | null,
+  context: PageContext
+): OptionType | null {
+  if (mapping.type !== undefined) {
+    const type = parseOptionType(row[mapping.type] || '');
+    if (type) return type;
+  }
+  if (mapping.contract !== undefined) {
+    const symbol = parseOptionSymbol(row[mapping.contract] || '');
+    if (symbol) return symbol.type;
+  }
+  return headerType ?? context.optionType;
+}
+
+/**
+ * Reads the expiry of a chain row: expiry column, contract symbol, then a date near the table
+ */
+function getRowExpiry(
+  row: string[],
+  mapping: ColumnMapping<OptionColumnName>,
+  context: PageContext
+): string {
+  if (mapping.expiry !== undefined) {
+    const expiry = parseDateToISO(row[mapping.expiry] || '');
+    if (expiry && expiry !== INVALID_DATE) return expiry;
+  }
+  if (mapping.contract !== undefined) {
+    const symbol = parseOptionSymbol(row[mapping.contract] || '');
+    if (symbol) return symbol.expiry;
+  }
+  return context.expiry || '';
+}
+
+/** Result from cleaning options chain data */
+export interface CleanOptionsDataResult {
+  data: string[][];
+}
+
+/**
+ * Cleans options chain data (a logical grid from tableToArray) by:
+ * 1. Splitting mirrored call/put layouts around the strike column into separate rows
+ * 2. Standardizing columns to type, expiry, strike, bid, ask, last, volume, open_interest, iv
+ * 3. Reading type and expiry from type/expiry columns, OCC contract symbols
+ *    ("AAPL240119C00150000") or labels near the table ("Calls for January 19, 2024")
+ * 4. Converting unmatched columns to JSON extras
+ * 5. Removing strikes without any quote on a side
+ * 6. Optionally normalizing numeric columns to plain numbers
+ *
+ * Calls come before puts; within each side rows keep the source order.
+ */
+export function cleanOptionsData(
+  data: string[][],
+  options: CleanOptions = DEFAULT_CLEAN_OPTIONS,
+  context: PageContext = getPageContext()
+): CleanOptionsDataResult {
+  const headerInfo = findHeaderRows(data, hasOptionsColumns);
+  if (!headerInfo) return { data };
+
+  const { headers } = headerInfo;
+  const strikeColumn = headers.findIndex(isStrikeColumn);
+  const sides = getOptionSides(headers, strikeColumn);
+  const headerType = sides.length === 1 ? parseOptionType(headers.join(' ')) : null;
+
+  let dataRows = data.slice(headerInfo.headerRowIndex + 1);
+
+  // Optional: normalize numeric cells (strike, quotes and extras)
+  if (options.normalizeNumbers) {
+    const numericColumns = sides.flatMap(({ mapping }) => [
+      ...OPTION_VALUE_COLUMNS.map((name) => mapping[name]),
+      ...mapping.extras,
+    ]);
+    dataRows = normalizeNumericColumns(
+      dataRows,
+      [strikeColumn, ...numericColumns].filter((i): i is number => i !== undefined)
+    );
+  }
+
+  const includeExtras = sides.some(({ mapping }) => mapping.extras.length > 0);
+  const standardHeader = ['type', 'expiry', 'strike', ...OPTION_VALUE_COLUMNS];
+  if (includeExtras) standardHeader.push('extras');
+
+  const rowsByType: Record<OptionType | 'unknown', string[][]> = { call: [], put: [], unknown: [] };
+  for (const row of dataRows) {
+    const strike = row[strikeColumn]?.trim() || '';
+    if (strike === '' || strike === '-') continue;
+
+    for (const { mapping, type: sideType } of sides) {
+      const values = OPTION_VALUE_COLUMNS.map((name) => {
+        const index = mapping[name];
+        return index !== undefined ? row[index]?.trim() || '' : '';
+      });
+      if (!values.some((value) => value !== '' && value !== '-')) continue;
+
+      const type = sideType ?? getRowOptionType(row, mapping, headerType, context);
+      const result = [type || '', getRowExpiry(row, mapping, context), strike, ...values];
+      if (includeExtras) {
+        result.push(buildExtrasJson(row, headers, mapping.extras));
+      }
+      rowsByType[type ?? 'unknown'].push(result);
+    }
+  }
+
+  return {
+    data: [standardHeader, ...rowsByType.call, ...rowsByType.put, ...rowsByType.unknown],
+  };
+}
+
+// ============================================================================
+// Quote Column Standardization
+// Reorders columns to: symbol, last, change, change_pct, volume, extras (JSON),
+// captured_at. Watchlists and screeners have one row per symbol, not per date
+// ============================================================================
+
+/** Standard quote column names in output order */
+const QUOTE_COLUMNS = ['symbol', 'last', 'change', 'change_pct', 'volume'] as const;
+
+type QuoteColumnName = (typeof QUOTE_COLUMNS)[number];
+
+type QuoteColumnMapping = ColumnMapping<QuoteColumnName>;
+
+/**
+ * Quote column matchers in priority order. Percent change comes before change
+ * since the change matcher also matches "% Change", and both come before last
+ * so "Price Change" is not read as the price.
+ */
+const QUOTE_COLUMN_MATCHERS: ColumnMatcher<QuoteColumnName>[] = [
+  { name: 'symbol', matcher: isSymbolColumn },
+  { name: 'change_pct', matcher: isChangePercentColumn },
+  { name: 'change', matcher: isChangeColumn },
+  { name: 'last', matcher: isQuotePriceColumn },
+  { name: 'volume', matcher: isVolumeColumn },
+];
+
+/** "+1.23 (+0.52%)" - change and percent change shown in one cell */
+const CHANGE_WITH_PERCENT_PATTERN = /^(.+?)\s*\(\s*([^()]+%)\s*\)$/;
+
+/**
+ * Maps source column headers to quote columns using priority-based claiming.
+ */
+function mapQuoteColumns(headers: string[]): QuoteColumnMapping {
+  return claimColumns(headers, QUOTE_COLUMN_MATCHERS);
+}
+
+/**
+ * Reads the change and percent change of a row. When the table has only one of
+ * the two columns, a cell like "+1.23 (+0.52%)" in it is split into both.
+ */
+function getRowChange(
+  row: string[],
+  mapping: QuoteColumnMapping,
+  options: CleanOptions
+): [string, string] {
+  const change = mapping.change !== undefined ? row[mapping.change]?.trim() || '' : '';
+  const changePct = mapping.change_pct !== undefined ? row[mapping.change_pct]?.trim() || '' : '';
+
+  const combined = (mapping.change === undefined ? changePct : change).match(
+    CHANGE_WITH_PERCENT_PATTERN
+  );
+  const hasBothColumns = mapping.change !== undefined && mapping.change_pct !== undefined;
+  if (hasBothColumns || !combined?.[1] || !combined[2]) {
+    return [change, normalizeNumber(changePct)];
+  }
+
+  const amount = combined[1].trim();
+  return [
+    options.normalizeNumbers ? normalizeNumber(amount) : amount,
+    normalizeNumber(combined[2]),
+  ];
+}
+
+/** Result from cleaning quote list data */
+export interface CleanQuotesDataResult {
+  data: string[][];
+}
+
+/**
+ * Cleans watchlist/screener data (a logical grid from tableToArray) by:
+ * 1. Standardizing columns to symbol, last, change, change_pct, volume
+ * 2. Splitting combined change cells ("+1.23 (+0.52%)") into change and change_pct
+ * 3. Converting percent changes to plain numbers ("+0.52%" → "0.52")
+ * 4. Converting unmatched columns to JSON extras
+ * 5. Removing rows without a symbol (group headings, repeated headers)
+ * 6. Stamping every row with the capture time (captured_at, ISO 8601 UTC)
+ * 7. Optionally normalizing price, change, volume and extras to plain numbers
+ */
+export function cleanQuotesData(
+  data: string[][],
+  options: CleanOptions = DEFAULT_CLEAN_OPTIONS
+): CleanQuotesDataResult {
+  const headerInfo = findHeaderRows(data, hasQuotesColumns);
+  if (!headerInfo) return { data };
+
+  const { headers } = headerInfo;
+  const mapping = mapQuoteColumns(headers);
+  const symbolColumn = mapping.symbol as number;
+  const capturedAt = new Date().toISOString();
+
+  let dataRows = data.slice(headerInfo.headerRowIndex + 1).filter((row) => {
+    const symbol = row[symbolColumn]?.trim() || '';
+    return symbol !== '' && symbol !== headers[symbolColumn];
+  });
+
+  // Optional: normalize numeric cells (last, change, volume and extras)
+  if (options.normalizeNumbers) {
+    const numericColumns = [mapping.last, mapping.change, mapping.volume].filter(
+      (i): i is number => i !== undefined
+    );
+    dataRows = normalizeNumericColumns(dataRows, [...numericColumns, ...mapping.extras]);
+  }
+
+  const includeExtras = mapping.extras.length > 0;
+  const standardHeader: string[] = [...QUOTE_COLUMNS];
+  if (includeExtras) standardHeader.push('extras');
+  standardHeader.push('captured_at');
+
+  const standardizedRows = dataRows.map((row) => {
+    const [change, changePct] = getRowChange(row, mapping, options);
+    const cell = (index: number | undefined) =>
+      index !== undefined ? row[index]?.trim() || '' : '';
+    const result = [
+      cell(symbolColumn),
+      cell(mapping.last),
+      change,
+      changePct,
+      cell(mapping.volume),
+    ];
+    if (includeExtras) {
+      result.push(buildExtrasJson(row, headers, mapping.extras));
+    }
+    result.push(capturedAt);
+    return result;
+  });
+
+  return { data: [standardHeader, ...standardizedRows] };
+}
+
+// ============================================================================
+// Insider Transaction Standardization
+// Reorders columns to: date, insider, relation, transaction_type, shares, price,
+// value, extras (JSON for unmatched columns)
+// Only columns present in the source table are included
+// ============================================================================
+
+/** Standard insider transaction column names in output order */
+const INSIDER_COLUMNS = [
+  'date',
+  'insider',
+  'relation',
+  'transaction_type',
+  'shares',
+  'price',
+  'value',
+] as const;
+
+type InsiderColumnName = (typeof INSIDER_COLUMNS)[number];
+
+type InsiderColumnMapping = ColumnMapping<InsiderColumnName>;
+
+/**
+ * Insider column matchers in priority order. Relation comes before insider so
+ * "Insider Relationship" is not read as the name, and the date is claimed before
+ * the transaction type so "Transaction Date" is not read as the type.
+ */
+const INSIDER_COLUMN_MATCHERS: ColumnMatcher<InsiderColumnName>[] = [
+  { name: 'relation', matcher: isRelationColumn },
+  { name: 'date', matcher: isDateColumn },
+  { name: 'insider', matcher: isInsiderColumn },
+  { name: 'transaction_type', matcher: isTransactionTypeColumn },
+  { name: 'shares', matcher: isSharesColumn },
+  { name: 'price', matcher: isTransactionPriceColumn },
+  { name: 'value', matcher: isValueColumn },
+];
+
+/**
+ * Maps source column headers to insider transaction columns using priority-based claiming.
+ */
+function mapInsiderColumns(headers: string[]): InsiderColumnMapping {
+  return claimColumns(headers, INSIDER_COLUMN_MATCHERS);
+}
+
+/** Result from cleaning insider transaction data, includes the date parsing report */
+export interface CleanInsiderDataResult {
+  data: string[][];
+  dates: DateReport;
+}
+
+/**
+ * Cleans insider transaction data (a logical grid from tableToArray) by:
+ * 1. Standardizing column order and names (date, insider, relation, transaction_type, ...)
+ * 2. Normalizing transaction types to "buy" or "sell" where the text says so
+ * 3. Parsing transaction dates to YYYY-MM-DD (rows without a readable date are dropped)
+ * 4. Converting unmatched columns to JSON extras
+ * 5. Removing rows without a share count
+ * 6. Optionally normalizing shares, price, value and extras to plain numbers
+ */
+export function cleanInsiderData(
+  data: string[][],
+  options: CleanOptions = DEFAULT_CLEAN_OPTIONS,
+  context: PageContext = getPageContext()
+): CleanInsiderDataResult {
+  const emptyReport: DateReport = { order: null, ambiguous: false, invalidRows: 0 };
+  const headerInfo = findHeaderRows(data, hasInsiderColumns);
+  if (!headerInfo) return { data, dates: emptyReport };
+
+  const { headers } = headerInfo;
+  const mapping = mapInsiderColumns(headers);
+  const columns = INSIDER_COLUMNS.filter((name) => mapping[name] !== undefined);
+  const indexes = columns.map((name) => mapping[name] as number);
+
+  let dataRows = data.slice(headerInfo.headerRowIndex + 1);
+
+  // Optional: normalize numeric cells (shares, price, value and extras)
+  if (options.normalizeNumbers) {
+    const numericColumns = [mapping.shares, mapping.price, mapping.value].filter(
+      (i): i is number => i !== undefined
+    );
+    dataRows = normalizeNumericColumns(dataRows, [...numericColumns, ...mapping.extras]);
+  }
+
+  // Remove rows without a share count
+  const sharesColumn = mapping.shares as number;
+  dataRows = dataRows.filter((row) => {
+    const shares = row[sharesColumn]?.trim();
+    return shares !== '' && shares !== '-';
+  });
+
+  if (mapping.transaction_type !== undefined) {
+    const typeColumn = mapping.transaction_type;
+    dataRows = dataRows.map((row) => {
+      const cleaned = [...row];
+      cleaned[typeColumn] = normalizeTransactionType(row[typeColumn] || '');
+      return cleaned;
+    });
+  }
+
+  const { rows: datedRows, report } = parseDateColumns(
+    dataRows,
+    mapping.date as number,
+    [],
+    context.locale
+  );
+
+  const includeExtras = mapping.extras.length > 0;
+  const standardHeader: string[] = [...columns];
+  if (includeExtras) standardHeader.push('extras');
+
+  const standardizedRows = datedRows.map((row) => {
+    const result = indexes.map((i) => row[i]?.trim() || '');
+    if (includeExtras) {
+      result.push(buildExtrasJson(row, headers, mapping.extras));
+    }
+    return result;
+  });
+
+  return { data: [standardHeader, ...standardizedRows], dates: report };
+}
+
+// ============================================================================
+// Holders Standardization
+// Reorders columns to: holder, shares, pct, value, date_reported,
+// extras (JSON for unmatched columns)
+// Only columns present in the source table are included
+// ============================================================================
+
+/** Standard holder column names in output order */
+const HOLDER_COLUMNS = ['holder', 'shares', 'pct', 'value', 'date_reported'] as const;
+
+type HolderColumnName = (typeof HOLDER_COLUMNS)[number];
+
+type HolderColumnMapping = ColumnMapping<HolderColumnName>;
+
+/**
+ * Holder column matchers in priority order. The report date and percent held are
+ * claimed first so "Date Reported" and "% of Shares" are not read as other columns.
+ */
+const HOLDER_COLUMN_MATCHERS: ColumnMatcher<HolderColumnName>[] = [
+  { name: 'date_reported', matcher: isDateReportedColumn },
+  { name: 'pct', matcher: isHoldingPercentColumn },
+  { name: 'holder', matcher: isHolderColumn },
+  { name: 'shares', matcher: isSharesColumn },
+  { name: 'value', matcher: isValueColumn },
+];
+
+/**
+ * Maps source column headers to holder columns using priority-based claiming.
+ */
+function mapHolderColumns(headers: string[]): HolderColumnMapping {
+  return claimColumns(headers, HOLDER_COLUMN_MATCHERS);
+}
+
+/** Result from cleaning holders data, includes the date parsing report */
+export interface CleanHoldersDataResult {
+  data: string[][];
+  dates: DateReport;
+}
+
+/**
+ * Cleans institutional/fund holder data (a logical grid from tableToArray) by:
+ * 1. Standardizing column order and names (holder, shares, pct, value, date_reported)
+ * 2. Converting percent held to plain numbers ("5.12%" → "5.12")
+ * 3. Parsing report dates to YYYY-MM-DD (an unreadable date is blanked)
+ * 4. Converting unmatched columns to JSON extras
+ * 5. Removing rows without a holder name or holding (totals, group headings)
+ * 6. Optionally normalizing shares, value and extras to plain numbers
+ */
+export function cleanHoldersData(
+  data: string[][],
+  options: CleanOptions = DEFAULT_CLEAN_OPTIONS,
+  context: PageContext = getPageContext()
+): CleanHoldersDataResult {
+  const emptyReport: DateReport = { order: null, ambiguous: false, invalidRows: 0 };
+  const headerInfo = findHeaderRows(data, hasHoldersColumns);
+  if (!headerInfo) return { data, dates: emptyReport };
+
+  const { headers } = headerInfo;
+  const mapping = mapHolderColumns(headers);
+  const columns = HOLDER_COLUMNS.filter((name) => mapping[name] !== undefined);
+  const indexes = columns.map((name) => mapping[name] as number);
+
+  let dataRows = data.slice(headerInfo.headerRowIndex + 1);
+
+  // Optional: normalize numeric cells (shares, value and extras)
+  if (options.normalizeNumbers) {
+    const numericColumns = [mapping.shares, mapping.value].filter(
+      (i): i is number => i !== undefined
+    );
+    dataRows = normalizeNumericColumns(dataRows, [...numericColumns, ...mapping.extras]);
+  }
+
+  // Remove rows without a holder name or any holding (totals, repeated headers)
+  const holderColumn = mapping.holder as number;
+  const holdingColumns = [mapping.shares, mapping.pct, mapping.value].filter(
+    (i): i is number => i !== undefined
+  );
+  dataRows = dataRows.filter((row) => {
+    const holder = row[holderColumn]?.trim() || '';
+    const hasHolding = holdingColumns.some((i) => {
+      const value = row[i]?.trim();
+      return value !== '' && value !== '-';
+    });
+    return holder !== '' && holder !== headers[holderColumn] && hasHolding;
+  });
+
+  // Percent held is always normalized
+  if (mapping.pct !== undefined) {
+    const pctColumn = mapping.pct;
+    dataRows = dataRows.map((row) => {
+      const cleaned = [...row];
+      cleaned[pctColumn] = normalizeNumber(row[pctColumn] || '');
+      return cleaned;
+    });
+  }
+
+  let report = emptyReport;
+  if (mapping.date_reported !== undefined) {
+    const parsed = parseDateColumns(dataRows, null, [mapping.date_reported], context.locale);
+    dataRows = parsed.rows;
+    report = parsed.report;
+  }
+
+  const includeExtras = mapping.extras.length > 0;
+  const standardHeader: string[] = [...columns];
+  if (includeExtras) standardHeader.push('extras');
+
+  const standardizedRows = dataRows.map((row) => {
+    const result = indexes.map((i) => row[i]?.trim() || '');
+    if (includeExtras) {
+      result.push(buildExtrasJson(row, headers, mapping.extras));
+    }
+    return result;
+  });
+
+  return { data: [standardHeader, ...standardizedRows], dates: report };
+}
+
+// ============================================================================
+// Key Statistics Standardization
+// Merges label/value tables ("Market Cap | 2.9T") into one record: a header row
+// of snake_case labels and a single row of values. Ranges get _low/_high fields
+// ============================================================================
+
+/** "120.5 - 180.2", "Jan 2, 2024 – Jan 9, 2024" */
+const RANGE_PATTERN = /^(.+?)\s+[-–—]\s+(.+)$/;
+
+/**
+ * Normalizes a key statistic value: numbers to plain numbers, dates to YYYY-MM-DD.
+ * Returns null for values that are neither (e.g. "0.96 (0.52%)" or "Technology").
+ */
+function normalizeStatistic(value: string): string | null {
+  const number = normalizeNumber(value);
+  if (number === '' || /^-?\d+(?:\.\d+)?$/.test(number)) return number;
+
+  const date = parseDateToISO(value);
+  return date && date !== INVALID_DATE ? date : null;
+}
+
+/**
+ * Checks if a value reads as a statistic: a number, date or range of them
+ */
+function isStatisticValue(value: string): boolean {
+  if (value.trim() === '') return false;
+  const range = value.match(RANGE_PATTERN);
+  if (range?.[1] && range[2]) {
+    return normalizeStatistic(range[1]) !== null && normalizeStatistic(range[2]) !== null;
+  }
+  return normalizeStatistic(value) !== null;
+}
+
+/**
+ * Splits each row of label/value tables into (label, value) pairs.
+ * Rows may hold several pairs side by side: "P/E | 25.1 | Beta | 1.2".
+ */
+function getLabelValuePairs(data: string[][]): [string, string][] {
+  return data.flatMap((row) => {
+    const pairs: [string, string][] = [];
+    for (let i = 0; i + 1 < row.length; i += 2) {
+      const label = normalizeLineItem(row[i] || '');
+      if (label) pairs.push([label, row[i + 1]?.trim() || '']);
+    }
+    return pairs;
+  });
+}
+
+/** Result from cleaning key statistics: a header row and one row of values */
+export interface CleanKeyStatsDataResult {
+  data: string[][];
+}
+
+/**
+ * Cleans key statistics data (rows of one or more label/value tables) into one record:
+ * 1. Labels become snake_case field names; the first occurrence of a label wins
+ * 2. Numeric values are normalized ("2.9T" → "2900000000000", "25.3%" → "25.3")
+ * 3. Ranges ("120.5 - 180.2") become <label>_low and <label>_high fields
+ * 4. Dates become YYYY-MM-DD; other text is kept as shown
+ *
+ * The popup stamps the record with the ticker and capture time on download.
+ */
+export function cleanKeyStatsData(data: string[][]): CleanKeyStatsDataResult {
+  const record = new Map<string, string>();
+  const set = (key: string, value: string) => {
+    if (key && !record.has(key)) record.set(key, value);
+  };
+
+  for (const [label, value] of getLabelValuePairs(data)) {
+    const key = toSnakeCase(label);
+    const range = value.match(RANGE_PATTERN);
+    const low = range?.[1] ? normalizeStatistic(range[1]) : null;
+    const high = range?.[2] ? normalizeStatistic(range[2]) : null;
+
+    if (low !== null && high !== null) {
+      set(`${key}_low`, low);
+      set(`${key}_high`, high);
+    } else {
+      set(key, normalizeStatistic(value) ?? value);
+    }
+  }
+
+  return { data: [Array.from(record.keys()), Array.from(record.values())] };
+}
+
+// ============================================================================
+// Price Column Standardization
+// Reorders columns to: date, open, high, low, close, adj_close, volume, extras (JSON)
+// adj_close and volume are included only when the source table has them
+// Close-only tables (NAV, index levels): date, close[, adj_close][, volume], extras
+// Interleaved dividend/split rows are split out into their own tables
+// ============================================================================
+
+/** Standard price column names in output order */
+const PRICE_COLUMNS = ['date', 'open', 'high', 'low', 'close', 'adj_close', 'volume'] as const;
+
+type PriceColumnName = (typeof PRICE_COLUMNS)[number];
+
+type PriceColumnMapping = ColumnMapping<PriceColumnName>;
+
+/** A price table layout: columns it claims (in priority order) and which are required */
+interface PriceLayout {
+  matchers: ColumnMatcher<PriceColumnName>[];
+  required: PriceColumnName[]; // besides date, which falls back to the first column
+}
+
+/**
+ * Full OHLC bars. adj_close is claimed before close so "Adj Close" can't take
+ * the close slot from a plain "Close" column that comes after it.
+ */
+const OHLC_LAYOUT: PriceLayout = {
+  matchers: [
+    { name: 'date', matcher: isDateTimeColumn },
+    { name: 'open', matcher: isOpenColumn },
+    { name: 'high', matcher: isHighColumn },
+    { name: 'low', matcher: isLowColumn },
+    { name: 'adj_close', matcher: isAdjCloseColumn },
+    { name: 'close', matcher: isCloseColumn },
+    { name: 'volume', matcher: isVolumeColumn },
+  ],
+  required: ['open', 'high', 'low', 'close'],
+};
+
+/** Close-only series: fund NAV, index closing levels, bond prices */
+const CLOSE_ONLY_LAYOUT: PriceLayout = {
+  matchers: [
+    { name: 'date', matcher: isDateTimeColumn },
+    { name: 'adj_close', matcher: isAdjCloseColumn },
+    { name: 'close', matcher: isClosingValueColumn },
+    { name: 'volume', matcher: isVolumeColumn },
+  ],
+  required: ['close'],
+};
+
+/**
+ * Maps source column headers to standard price columns using priority-based claiming.
+ */
+function mapPriceColumns(headers: string[], layout: PriceLayout): PriceColumnMapping {
+  return claimColumns(headers, layout.matchers);
+}
+
+/**
+ * Checks if a mapping has all required columns of a layout (not including date).
+ */
+function hasRequiredPriceColumns(mapping: PriceColumnMapping, layout: PriceLayout): boolean {
+  return layout.required.every((name) => mapping[name] !== undefined);
+}
 
 /**
  * Builds the standardized header row for price data based on which columns are present.
  */
-function buildPriceHeader(mapping: PriceColumnMapping): string[] {
-  const header: string[] = ['date', 'open', 'high', 'low', 'close'];
+function buildPriceHeader(mapping: PriceColumnMapping, intraday: boolean): string[] {
+  const header: string[] = PRICE_COLUMNS.filter(
+    (name) => name === 'date' || mapping[name] !== undefined
+  ).map((name) => (name === 'date' && intraday ? 'datetime' : name));
   if (mapping.extras.length > 0) header.push('extras');
   return header;
 }
 
+/** Dividend or split rows split out of a price table, as a standardized table */
+export interface CorporateActionTable {
+  type: CorporateActionType;
+  data: string[][];
+}
+
+/** Standardized headers of corporate action tables */
+const CORPORATE_ACTION_HEADERS: Record<CorporateActionType, string[]> = {
+  dividend: ['ex_date', 'amount'],
+  split: ['ex_date', 'numerator', 'denominator', 'description'],
+};
+
+/**
+ * Separates corporate action rows ("0.24 Dividend", "4:1 Stock Splits") from price rows.
+ * Sites like Yahoo interleave them in price history, with one cell spanning the value columns.
+ */
+function extractCorporateActions(
+  rows: string[][],
+  dateColumn: number,
+  locale: string
+): { priceRows: string[][]; corporateActions: CorporateActionTable[] } {
+  const priceRows: string[][] = [];
+  const eventRows: Record<CorporateActionType, string[][]> = { dividend: [], split: [] };
+
+  for (const row of rows) {
+    let action: CorporateAction | null = null;
+    let text = '';
+    for (let i = 0; i < row.length && !action; i++) {
+      if (i === dateColumn) continue;
+      text = row[i]?.trim() || '';
+      action = parseCorporateAction(text);
+    }
+
+    if (!action) {
+      priceRows.push(row);
+      continue;
+    }
+
+    const date = splitDateTime(row[dateColumn] || '').datePart;
+    eventRows[action.type].push(
+      action.type === 'dividend'
+        ? [date, action.amount]
+        : [date, action.numerator, action.denominator, text]
+    );
+  }
+
+  const corporateActions = (['dividend', 'split'] as const)
+    .filter((type) => eventRows[type].length > 0)
+    .map((type) => {
+      const { rows: datedRows } = parseDateColumns(eventRows[type], 0, [], locale);
+      return { type, data: [CORPORATE_ACTION_HEADERS[type], ...datedRows] };
+    });
+
+  return { priceRows, corporateActions };
+}
+
+/**
+ * Converts corporate action tables to CSV outputs for the popup
+ */
+export function toCorporateActionOutputs(tables: CorporateActionTable[]): CorporateActionOutput[] {
+  return tables.map(({ type, data }) => ({
+    type,
+    rows: data.length - 1,
+    csvData: Papa.unparse(data, { quotes: true, skipEmptyLines: true }),
+  }));
+}
+
 /** Result from cleaning price data, includes timeframe if detected */
 export interface CleanPriceDataResult {
   data: string[][];
   timeframe: string | null;
+  dates: DateReport;
+  timezone: string | null; // zone of intraday timestamps, null for daily data
+  corporateActions: CorporateActionTable[]; // dividend/split rows removed from the series
 }
 
 /**
- * Cleans price table data by:
- * 1. Standardizing column order and names (date, open, high, low, close)
+ * Cleans price table data (a logical grid from tableToArray) by:
+ * 1. Standardizing column order and names (date, open, high, low, close, adj_close, volume)
  * 2. Parsing date column to YYYY-MM-DD format
  * 3. Converting unmatched columns to JSON extras
  * 4. Extracting timeframe from header rows
+ * 5. Optionally normalizing OHLC, adj_close, volume and extras to plain numbers
+ * 6. Inferring one day/month order for the whole date column
+ * 7. Moving interleaved dividend/split rows into separate corporate action tables
  *
- * Handles multi-row headers with colspan where:
- * - Header row may have fewer columns than data rows
- * - OHLC column names may be in a different row than the date column
+ * Multi-row headers (e.g. "Date" spanning two rows next to "Price" over OHLC)
+ * are matched on their composite names, so columns line up with data rows.
  */
-export function cleanPriceData(data: string[][]): CleanPriceDataResult {
-  if (data.length === 0) return { data, timeframe: null };
+export function cleanPriceData(
+  data: string[][],
+  options: CleanOptions = DEFAULT_CLEAN_OPTIONS,
+  context: PageContext = getPageContext(),
+  manual?: ManualMapping
+): CleanPriceDataResult {
+  return cleanPriceLayoutData(data, OHLC_LAYOUT, options, context, manual);
+}
 
-  // Find the header row with OHLC columns (may not be row 0)
-  const headerInfo = findOHLCHeaderRow(data);
-  if (!headerInfo) {
-    return { data, timeframe: null };
-  }
-
-  const { headerRowIndex, mapping } = headerInfo;
-  const headerRow = data[headerRowIndex];
-  if (!headerRow) return { data, timeframe: null };
-
-  // Data rows start after the header row
-  const dataRows = data.slice(headerRowIndex + 1);
-  if (dataRows.length === 0) return { data, timeframe: null };
-
-  // Calculate column offset: data may have more columns than header (due to colspan)
-  const dataColumnCount = dataRows[0]?.length || 0;
-  const headerColumnCount = headerRow.length;
-  const columnOffset = Math.max(0, dataColumnCount - headerColumnCount);
-
-  // Build final mapping with offset applied
-  // If header doesn't have date column but has offset, assume data column 0 is date
-  const finalMapping: PriceColumnMapping = {
-    date: mapping.date !== undefined ? mapping.date + columnOffset : 0,
-    open: (mapping.open ?? 0) + columnOffset,
-    high: (mapping.high ?? 1) + columnOffset,
-    low: (mapping.low ?? 2) + columnOffset,
-    close: (mapping.close ?? 3) + columnOffset,
-    extras: (mapping.extras || []).map((i) => i + columnOffset),
+/**
+ * Cleans close-only price data (NAV histories, index closing levels) into
+ * date, close[, adj_close][, volume] plus extras, with the same date handling as cleanPriceData.
+ */
+export function cleanClosePriceData(
+  data: string[][],
+  options: CleanOptions = DEFAULT_CLEAN_OPTIONS,
+  context: PageContext = getPageContext()
+): CleanPriceDataResult {
+  return cleanPriceLayoutData(data, CLOSE_ONLY_LAYOUT, options, context);
+}
+
+/**
+ * Shared price cleaning pipeline for a given layout.
+ * A manual mapping replaces both the header search and the layout's column matching.
+ */
+function cleanPriceLayoutData(
+  data: string[][],
+  layout: PriceLayout,
+  options: CleanOptions,
+  context: PageContext,
+  manual?: ManualMapping
+): CleanPriceDataResult {
+  const emptyReport: DateReport = { order: null, ambiguous: false, invalidRows: 0 };
+  const unchanged: CleanPriceDataResult = {
+    data,
+    timeframe: null,
+    dates: emptyReport,
+    timezone: null,
+    corporateActions: [],
   };
+  if (data.length === 0) return unchanged;
+
+  // Find the (possibly multi-row) header with the layout's required columns
+  const headerInfo = manual
+    ? getManualHeader(data, manual)
+    : findHeaderRows(data, (headers) =>
+        hasRequiredPriceColumns(mapPriceColumns(headers, layout), layout)
+      );
+  if (!headerInfo) {
+    return unchanged;
+  }
 
-  // If date column was inferred (not from header), add remaining pre-offset columns to extras
-  if (mapping.date === undefined && columnOffset > 0) {
-    // Column 0 is date, so extras should include indices 1 to columnOffset-1 (if any)
-    // But typically columnOffset=1 means only column 0 is extra (date), nothing else to add
+  const { headerRowIndex, headers } = headerInfo;
+  const mapping = manual
+    ? applyManualMapping(
+        manual,
+        PRICE_COLUMNS,
+        headers.map((_, i) => i)
+      )
+    : mapPriceColumns(headers, layout);
+
+  // Data rows start after the header block
+  let dataRows = data.slice(headerRowIndex + 1);
+  if (dataRows.length === 0) return unchanged;
+
+  // Without a date header, the first column holds the date if nothing claimed it
+  let extras = mapping.extras || [];
+  let dateIndex = mapping.date;
+  if (dateIndex === undefined && extras.includes(0)) {
+    dateIndex = 0;
+    extras = extras.filter((i) => i !== 0);
+  }
+
+  const finalMapping: PriceColumnMapping = { ...mapping, date: dateIndex ?? 0, extras };
+  const dateColumn = dateIndex ?? 0;
+  const valueColumns = PRICE_COLUMNS.filter((name) => name !== 'date')
+    .map((name) => finalMapping[name])
+    .filter((i): i is number => i !== undefined);
+
+  // Interleaved dividend/split rows ("0.24 Dividend") are not prices
+  const { priceRows, corporateActions } = extractCorporateActions(
+    dataRows,
+    dateColumn,
+    context.locale
+  );
+  dataRows = priceRows;
+
+  // Optional: normalize numeric cells (everything except the date column)
+  if (options.normalizeNumbers) {
+    dataRows = normalizeNumericColumns(dataRows, [...valueColumns, ...extras]);
   }
 
   // Extract timeframe from any header row (search rows 0 to headerRowIndex)
@@ -488,99 +2145,510 @@ export function cleanPriceData(data: string[][]): CleanPriceDataResult {
     }
   }
 
-  // Build headers for extras (using original header row, with offset)
-  const extrasHeaders: string[] = [];
-  for (const idx of finalMapping.extras) {
-    // Map back to header index if possible
-    const headerIdx = idx - columnOffset;
-    if (headerIdx >= 0 && headerIdx < headerRow.length) {
-      extrasHeaders.push(headerRow[headerIdx] || `col_${idx}`);
-    } else {
-      extrasHeaders.push(`col_${idx}`);
-    }
-  }
+  // Remove rows without valid date values
+  const rowsWithDate = dataRows.filter((row) => {
+    const dateValue = row[dateColumn]?.trim();
+    return dateValue !== '' && dateValue !== '-';
+  });
+
+  // Intraday tables carry a time in the date column ("2024-01-15 09:30", "9:30 AM")
+  const intraday = rowsWithDate.some((row) => splitDateTime(row[dateColumn] || '').time);
+
+  // Explicit choice, then a zone named in the headers or near the table, then the browser's
+  const timezone =
+    options.timezone ||
+    findTimezoneInText(headers.join(' ')) ||
+    context.timezone ||
+    getBrowserTimezone();
+
+  // Parse the date column with one day/month order for all rows
+  // (YYYY-MM-DD for daily data, ISO 8601 timestamps with offset for intraday)
+  const { rows: datedRows, report } = intraday
+    ? parseDateTimeColumn(rowsWithDate, dateColumn, context.locale, timezone, manual?.dateOrder)
+    : parseDateColumns(rowsWithDate, dateColumn, [], context.locale, manual?.dateOrder);
 
   const includeExtras = finalMapping.extras.length > 0;
 
   // Build standardized header
-  const standardHeader = buildPriceHeader(finalMapping);
+  const standardHeader = buildPriceHeader(finalMapping, intraday);
 
   // Reorder data rows
-  const standardizedRows = dataRows
-    .filter((row) => {
-      // Remove rows without valid date values
-      const dateValue = row[finalMapping.date]?.trim();
-      return dateValue !== '' && dateValue !== '-';
-    })
-    .map((row) => {
-      const result: string[] = [];
+  const standardizedRows = datedRows.map((row) => {
+    const result: string[] = [];
 
-      // Add columns in standard order (parse date column to YYYY-MM-DD)
-      result.push(parseDateToISO(row[finalMapping.date] || ''));
-      result.push(row[finalMapping.open] || '');
-      result.push(row[finalMapping.high] || '');
-      result.push(row[finalMapping.low] || '');
-      result.push(row[finalMapping.close] || '');
+    // Add columns in standard order (date column is already parsed)
+    result.push(row[dateColumn] || '');
+    for (const i of valueColumns) {
+      result.push(row[i] || '');
+    }
 
-      // Add extras JSON if there are unmatched columns
-      if (includeExtras) {
-        const extras: Record<string, string> = {};
-        for (let i = 0; i < finalMapping.extras.length; i++) {
-          const dataIdx = finalMapping.extras[i];
-          const key = toSnakeCase(extrasHeaders[i] || `col_${dataIdx}`);
-          const value = row[dataIdx ?? 0] || '';
-          if (key && value) {
-            extras[key] = value;
-          }
-        }
-        result.push(Object.keys(extras).length > 0 ? JSON.stringify(extras) : '');
-      }
+    // Add extras JSON if there are unmatched columns
+    if (includeExtras) {
+      result.push(buildExtrasJson(row, headers, finalMapping.extras));
+    }
 
-      return result;
-    });
+    return result;
+  });
 
   return {
     data: [standardHeader, ...standardizedRows],
     timeframe,
+    dates: report,
+    timezone: intraday ? timezone : null,
+    corporateActions,
+  };
+}
+
+// ============================================================================
+// Detection Rules and Diagnostics
+// Header-based table types in detection order, with the columns each one needs,
+// so rejected tables can be explained
+// ============================================================================
+
+/** A required column, or alternatives of which one is enough */
+type RequiredColumn = string | string[];
+
+/** How one header-based table type is recognized */
+interface DetectionRule {
+  type: TableType;
+  accept: (headers: string[]) => boolean;
+  columns: ColumnMatcher<string>[]; // standard columns, for matched columns and coverage
+  required: RequiredColumn[];
+  note?: string; // why headers with every required column can still be rejected
+}
+
+/** Checks if a header is a fiscal period ("TTM", "Dec 2023", "FY2022") */
+function isStatementPeriodHeader(header: string): boolean {
+  return normalizeStatementPeriod(header) !== null;
+}
+
+/** Header-based rules in priority order; key statistics are recognized by layout instead */
+const DETECTION_RULES: DetectionRule[] = [
+  // Chains can carry "Open Interest" or high/low columns, so check them first
+  {
+    type: 'options',
+    accept: hasOptionsColumns,
+    columns: [{ name: 'strike', matcher: isStrikeColumn }, ...OPTION_COLUMN_MATCHERS],
+    required: ['strike', 'bid', 'ask'],
+  },
+  // Screeners can list open/high/low per symbol, so check quote lists before price history
+  {
+    type: 'quotes',
+    accept: hasQuotesColumns,
+    columns: QUOTE_COLUMN_MATCHERS,
+    required: ['symbol', 'last', ['change', 'change_pct']],
+  },
+  {
+    type: 'price',
+    accept: hasAllPriceColumns,
+    columns: OHLC_LAYOUT.matchers,
+    required: OHLC_LAYOUT.required,
+  },
+  {
+    type: 'dividend',
+    accept: hasDividendColumns,
+    columns: COLUMN_MATCHERS,
+    required: ['ex_date', 'amount'],
+  },
+  {
+    type: 'earnings',
+    accept: hasEarningsColumns,
+    columns: EARNINGS_COLUMN_MATCHERS,
+    required: ['eps_actual', ['eps_estimate', 'surprise_pct']],
+  },
+  {
+    type: 'split',
+    accept: hasSplitColumns,
+    columns: [
+      { name: 'ex_date', matcher: (name) => isExDateColumn(name) || isDateColumn(name) },
+      ...SPLIT_COLUMN_MATCHERS,
+    ],
+    required: ['ex_date', 'ratio'],
+    note: 'a plain "Ratio" column needs an ex-date beside it',
+  },
+  // A narrow insider table (date, insider, shares, price) also reads as a close-only series
+  {
+    type: 'insider',
+    accept: hasInsiderColumns,
+    columns: INSIDER_COLUMN_MATCHERS,
+    required: ['date', 'insider', 'shares'],
+  },
+  {
+    type: 'holders',
+    accept: hasHoldersColumns,
+    columns: HOLDER_COLUMN_MATCHERS,
+    required: ['holder', 'shares', ['pct', 'value']],
+  },
+  {
+    type: 'close',
+    accept: hasCloseOnlyColumns,
+    columns: CLOSE_ONLY_LAYOUT.matchers,
+    required: ['date', 'close'],
+    note: `close-only series have at most ${MAX_CLOSE_ONLY_COLUMNS} columns`,
+  },
+  {
+    type: 'statement',
+    accept: hasStatementColumns,
+    columns: [{ name: 'period', matcher: isStatementPeriodHeader }],
+    required: ['period'],
+    note: `statements need ${MIN_STATEMENT_PERIODS}+ period headers making up most columns`,
+  },
+];
+
+/**
+ * Determines the type of a table or grid based on its columns
+ */
+export function getTableType(table: Element): TableType | null {
+  const data = tableToArray(table, MAX_HEADER_ROWS);
+
+  for (const rule of DETECTION_RULES) {
+    if (findHeaderRows(data, rule.accept)) return rule.type;
+  }
+  if (hasKeyValueLayout(data)) {
+    return 'keystats';
+  }
+  return null;
+}
+
+/**
+ * Returns the required columns of a rule that no header matches
+ */
+function getMissingColumns(rule: DetectionRule, headers: string[]): string[] {
+  const hasColumn = (name: string) => {
+    const matcher = rule.columns.find((column) => column.name === name)?.matcher;
+    return matcher !== undefined && headers.some(matcher);
   };
+
+  return rule.required
+    .filter((required) => !(Array.isArray(required) ? required : [required]).some(hasColumn))
+    .map((required) => (Array.isArray(required) ? required.join(' or ') : required));
+}
+
+/**
+ * Maps the standard columns of a rule to the source headers they claim
+ */
+function getMatchedColumns(rule: DetectionRule, headers: string[]): Record<string, string> {
+  const mapping = claimColumns(headers, rule.columns) as ColumnMapping<string>;
+  const matched: Record<string, string> = {};
+  for (const { name } of rule.columns) {
+    const index = mapping[name];
+    if (index !== undefined) matched[name] = headers[index] || '';
+  }
+  return matched;
+}
+
+/**
+ * Share of named headers recognized as one of the rule's standard columns
+ */
+function getColumnCoverage(rule: DetectionRule, headers: string[]): number {
+  const named = headers.filter((header) => header.trim() !== '');
+  if (named.length === 0) return 0;
+  const recognized = named.filter((header) => rule.columns.some(({ matcher }) => matcher(header)));
+  return recognized.length / named.length;
+}
+
+/**
+ * Describes an element for diagnostics: tag, id and ARIA role
+ */
+export function describeElement(el: Element): string {
+  const id = el.id ? `#${el.id}` : '';
+  const role = el.getAttribute('role');
+  return `${el.tagName.toLowerCase()}${id}${role ? `[role=${role}]` : ''}`;
+}
+
+/** A rule compared against a rejected table's header block */
+interface ClosestRule {
+  rule: DetectionRule;
+  headers: string[];
+  headerRows: number;
+  missing: string[];
+}
+
+/** Share of a rule's required columns found in the header block */
+function getFoundShare({ rule, missing }: ClosestRule): number {
+  return (rule.required.length - missing.length) / rule.required.length;
+}
+
+/** Highest confidence of a rejected table, so it always ranks below detected ones */
+const REJECTED_CONFIDENCE_CAP = 0.4;
+
+/** Rounds a confidence to two decimals */
+function roundConfidence(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Explains the detection result of one table or grid.
+ *
+ * Detected tables score 0.5-1 by the share of their columns that are recognized.
+ * Rejected tables are compared against every rule and header block; the closest
+ * rule (most required columns found) is reported with its missing columns, and
+ * scores up to REJECTED_CONFIDENCE_CAP by the share of required columns found.
+ */
+export function diagnoseTable(table: Element, index: number): TableDiagnosis {
+  const data = tableToArray(table, MAX_HEADER_ROWS);
+  const base = {
+    index,
+    element: describeElement(table),
+    rows: getGridRows(table).length,
+  };
+
+  for (const rule of DETECTION_RULES) {
+    const headerInfo = findHeaderRows(data, rule.accept);
+    if (!headerInfo) continue;
+
+    const { headers } = headerInfo;
+    return {
+      ...base,
+      type: rule.type,
+      closestType: null,
+      confidence: roundConfidence(0.5 + 0.5 * getColumnCoverage(rule, headers)),
+      headerRows: headerInfo.headerRowIndex + 1,
+      headers,
+      matched: getMatchedColumns(rule, headers),
+      missing: [],
+      reason: `Found required columns: ${rule.required.flat().join(', ')}`,
+    };
+  }
+
+  if (hasKeyValueLayout(data)) {
+    const pairs = getLabelValuePairs(data);
+    const statistics = pairs.filter(([, value]) => isStatisticValue(value));
+    return {
+      ...base,
+      type: 'keystats',
+      closestType: null,
+      confidence: roundConfidence(0.5 + (0.5 * statistics.length) / pairs.length),
+      headerRows: 0,
+      headers: [],
+      matched: {},
+      missing: [],
+      reason: `Label/value layout with ${pairs.length} pairs in the first ${MAX_HEADER_ROWS} rows`,
+    };
+  }
+
+  // Rejected: find the rule and header block with the most required columns
+  let closest: ClosestRule | null = null;
+  for (const rule of DETECTION_RULES) {
+    for (let i = 0; i < Math.min(MAX_HEADER_ROWS, data.length); i++) {
+      const headers = mergeHeaderRows(data.slice(0, i + 1));
+      const candidate = {
+        rule,
+        headers,
+        headerRows: i + 1,
+        missing: getMissingColumns(rule, headers),
+      };
+      if (!closest || getFoundShare(candidate) > getFoundShare(closest)) {
+        closest = candidate;
+      }
+    }
+  }
+
+  if (!closest || getFoundShare(closest) === 0) {
+    return {
+      ...base,
+      type: null,
+      closestType: null,
+      confidence: 0,
+      headerRows: 0,
+      headers: data[0] || [],
+      matched: {},
+      missing: [],
+      reason: `No known column names in the first ${MAX_HEADER_ROWS} rows, and not a label/value layout`,
+    };
+  }
+
+  const { rule, headers, headerRows, missing } = closest;
+  return {
+    ...base,
+    type: null,
+    closestType: rule.type,
+    confidence: roundConfidence(REJECTED_CONFIDENCE_CAP * getFoundShare(closest)),
+    headerRows,
+    headers,
+    matched: getMatchedColumns(rule, headers),
+    missing,
+    reason:
+      missing.length > 0
+        ? `Closest to ${rule.type}, missing: ${missing.join(', ')}`
+        : `Has the ${rule.type} columns, but ${rule.note ?? 'the header was not accepted'}`,
+  };
+}
+
+/**
+ * Explains detection for every table and grid on the page, in document order
+ */
+export function getTableDiagnostics(): DiagnosticsResponse {
+  const tables = findGrids().map((table, index) => diagnoseTable(table, index));
+  log.debug('Diagnostics', { count: tables.length });
+  return { tables };
+}
+
+/** Cleaned table data with the metadata shown in the popup */
+export interface CleanTableResult {
+  data: string[][];
+  timeframe: string | null;
+  dates: DateReport | null;
+  timezone: string | null;
+  corporateActions: CorporateActionTable[];
+}
+
+/**
+ * Applies the type-specific cleaner to a table's logical grid.
+ * A manual mapping (picked tables) applies to the price and dividend cleaners.
+ */
+export function cleanTableData(
+  type: TableType,
+  data: string[][],
+  options: CleanOptions,
+  context: PageContext,
+  manual?: ManualMapping
+): CleanTableResult {
+  switch (type) {
+    case 'price':
+      return cleanPriceData(data, options, context, manual);
+    case 'close':
+      return cleanClosePriceData(data, options, context);
+    case 'dividend':
+      return withoutPriceMetadata(cleanDividendData(data, options, context, manual));
+    case 'split':
+      return withoutPriceMetadata(cleanSplitData(data, options, context));
+    case 'earnings':
+      return withoutPriceMetadata(cleanEarningsData(data, options, context));
+    case 'statement':
+      return withoutPriceMetadata(cleanStatementData(data, options, context));
+    case 'options':
+      return withoutPriceMetadata(cleanOptionsData(data, options, context));
+    case 'quotes':
+      return withoutPriceMetadata(cleanQuotesData(data, options));
+    case 'insider':
+      return withoutPriceMetadata(cleanInsiderData(data, options, context));
+    case 'holders':
+      return withoutPriceMetadata(cleanHoldersData(data, options, context));
+    case 'keystats':
+      return withoutPriceMetadata(cleanKeyStatsData(data));
+  }
+}
+
+// ============================================================================
+// Row Keys
+// Columns that identify a row, for merging the rows read across scrolls and pages
+// ============================================================================
+
+/**
+ * Reads the source indexes of the named columns that a mapping has
+ */
+function pickMappedColumns<T extends string>(
+  mapping: Partial<Record<T, unknown>>,
+  names: T[]
+): number[] {
+  return names.map((name) => mapping[name]).filter((i): i is number => typeof i === 'number');
+}
+
+/**
+ * Finds the source columns that identify a row of a table: the date of a price row,
+ * the ex-date, amount and indicator of a dividend, the date and ratio of a split.
+ * Uses the same header search and column claiming as the cleaners.
+ *
+ * @returns column indexes, or null for types whose rows are keyed on all their cells
+ */
+export function getRowKeyColumns(
+  type: TableType,
+  data: string[][],
+  manual?: ManualMapping
+): number[] | null {
+  let columns: number[];
+  switch (type) {
+    case 'price':
+    case 'close': {
+      // Like the cleaner, fall back to the first column when no date header is found
+      if (manual) return [manual.columns.date ?? 0];
+      const layout = type === 'price' ? OHLC_LAYOUT : CLOSE_ONLY_LAYOUT;
+      const headerInfo = findHeaderRows(data, (headers) =>
+        hasRequiredPriceColumns(mapPriceColumns(headers, layout), layout)
+      );
+      return [(headerInfo && mapPriceColumns(headerInfo.headers, layout).date) ?? 0];
+    }
+    case 'dividend': {
+      const mapping = manual
+        ? manual.columns
+        : mapDividendColumns(findHeaderRows(data, hasDividendColumns)?.headers ?? data[0] ?? []);
+      columns = pickMappedColumns(mapping, ['ex_date', 'amount', 'indicator']);
+      break;
+    }
+    case 'split': {
+      const headers = findHeaderRows(data, hasSplitColumns)?.headers ?? data[0] ?? [];
+      columns = pickMappedColumns(mapSplitColumns(headers), ['ex_date', 'ratio']);
+      break;
+    }
+    default:
+      return null;
+  }
+  return columns.length > 0 ? columns : null;
+}
+
+/**
+ * Tells the kinds of rows apart that share key columns: in price history, dividend and
+ * split rows ("0.24 Dividend") fall on the date of a price row
+ *
+ * @returns 'action' or 'price' for price tables, '' for other types
+ */
+export function getRowKind(type: TableType, row: string[]): string {
+  if (type !== 'price' && type !== 'close') return '';
+  return row.some((cell) => parseCorporateAction(cell) !== null) ? 'action' : 'price';
+}
+
+/**
+ * Fills in the price-only fields (timeframe, timezone, corporate actions) for other table types
+ */
+function withoutPriceMetadata(result: { data: string[][]; dates?: DateReport }): CleanTableResult {
+  return {
+    data: result.data,
+    timeframe: null,
+    dates: result.dates ?? null,
+    timezone: null,
+    corporateActions: [],
+  };
+}
+
+/**
+ * Finds a table's pager for the popup. A lookup that fails only hides the pager note,
+ * so one odd control can't take the table list down.
+ */
+function findTablePager(table: Element): PagerControl | null {
+  try {
+    return findPager(table);
+  } catch (err) {
+    log.error('Error finding pager', err);
+    return null;
+  }
 }
 
 /**
  * Gets all valid tables and converts them to CSV format
  */
-export function getValidTables(): TablesResponse {
+export function getValidTables(options: CleanOptions = DEFAULT_CLEAN_OPTIONS): TablesResponse {
   log.debug('getValidTables() called');
-  const allTables = document.querySelectorAll('table');
-  log.debug('Found tables on page', { total: allTables.length });
+  const validTablesWithTypes = getDetectedTables();
 
-  const validTablesWithTypes = Array.from(allTables)
-    .map((table) => {
-      const type = getTableType(table as HTMLTableElement);
-      return type ? { table: table as HTMLTableElement, type } : null;
-    })
-    .filter((item): item is { table: HTMLTableElement; type: TableType } => item !== null);
+  const typeCounts: Partial<Record<TableType, number>> = {};
+  for (const { type } of validTablesWithTypes) {
+    typeCounts[type] = (typeCounts[type] ?? 0) + 1;
+  }
+  log.info('Valid tables found', { count: validTablesWithTypes.length, ...typeCounts });
 
-  log.info('Valid tables found', {
-    count: validTablesWithTypes.length,
-    price: validTablesWithTypes.filter((t) => t.type === 'price').length,
-    dividend: validTablesWithTypes.filter((t) => t.type === 'dividend').length,
-  });
+  const tables = validTablesWithTypes.flatMap((detected, index): TableInfo[] => {
+    const { table, type, profile } = detected;
+    if (isMergedKeyStatsTable(detected, validTablesWithTypes)) return [];
 
-  const tables = validTablesWithTypes.map(({ table, type }, index) => {
-    let data = tableToArray(table);
+    let data = readDetectedTable(detected, validTablesWithTypes);
     // Filter out completely empty rows
     data = data.filter((row) => row.some((cell) => cell !== ''));
 
-    let timeframe: string | null = null;
-
     // Apply type-specific cleaning
-    if (type === 'dividend') {
-      data = cleanDividendData(data);
-    } else if (type === 'price') {
-      const result = cleanPriceData(data);
-      data = result.data;
-      timeframe = result.timeframe;
-    }
+    const result = cleanTableData(type, data, options, getPageContext(table), profile?.mapping);
+    data = result.data;
+    const { timeframe, dates, timezone, corporateActions } = result;
 
     const csvData = Papa.unparse(data, {
       quotes: true, // Wrap all fields in double quotes
@@ -588,18 +2656,35 @@ export function getValidTables(): TablesResponse {
     });
     const rows = data.length;
     const columns = data[0]?.length || 0;
-    log.debug('Table processed', { index: index + 1, type, rows, columns, timeframe });
-
-    return {
-      index,
-      rows,
-      columns,
-      csvData,
-      type,
-      ...(timeframe && { timeframe }),
-    };
+    const pager = type === 'keystats' ? null : findTablePager(table);
+    log.debug('Table processed', { index: index + 1, type, rows, columns, timeframe, dates });
+
+    return [
+      {
+        index,
+        rows,
+        columns,
+        csvData,
+        type,
+        ...(timeframe && { timeframe }),
+        ...(timezone && { timezone }),
+        ...(dates?.order && { dateOrder: dates.order, dateOrderAmbiguous: dates.ambiguous }),
+        ...(dates?.invalidRows && { invalidDates: dates.invalidRows }),
+        ...(corporateActions.length > 0 && {
+          corporateActions: toCorporateActionOutputs(corporateActions),
+        }),
+        ...(profile && { profile: profile.urlPattern || '/*' }),
+        ...(pager && { pager: pager.kind }),
+      },
+    ];
   });
 
+  // A site profile's ticker override beats reading one from the page
+  const tickerOverride = validTablesWithTypes.find(({ profile }) => profile?.ticker)?.profile;
+  if (tables.length > 0 && tickerOverride) {
+    return { tables, ticker: tickerOverride.ticker, tickerSource: 'profile' };
+  }
+
   // Only extract ticker if tables were found
   if (tables.length > 0) {
     const { ticker, source } = extractStockTicker();
@@ -612,15 +2697,12 @@ export function getValidTables(): TablesResponse {
 }
 
 /**
- * Detects tables on the current page and sends count to background script
+ * Detects tables on the current page and sends count to background script.
+ * Key statistics blocks count once, as the popup lists them.
  */
 export function detectTables(): void {
-  const allTables = document.querySelectorAll('table');
-  const validTables = Array.from(allTables).filter((table) => {
-    const type = getTableType(table as HTMLTableElement);
-    return type !== null;
-  });
-  const tableCount = validTables.length;
+  const detected = getDetectedTables();
+  const tableCount = detected.filter((d) => !isMergedKeyStatsTable(d, detected)).length;
 
   const message: TableCountMessage = {
     action: 'updateBadge',
@@ -1,22 +1,49 @@
 /**
  * Download logic for NumNom Chrome extension
- * Handles scrolling and collecting all table rows
+ * Handles scrolling or paging through a table and collecting all its rows
  */
 
 import Papa from 'papaparse';
 import {
   BOTTOM_THRESHOLD_PX,
-  FINAL_CONTENT_DELAY_MS,
-  MAX_NO_NEW_ROWS_ATTEMPTS,
-  MAX_SCROLL_ATTEMPTS,
-  SCROLL_DELAY_MS,
+  MANUAL_MAPPING_FIELDS,
+  PAGE_LOAD_TIMEOUT_MS,
+  PAGE_POLL_INTERVAL_MS,
   SCROLL_PROGRESS_CAP,
-  SCROLL_VIEWPORT_RATIO,
 } from '../shared/constants';
 import { createLogger } from '../shared/logger';
-import type { ProgressUpdate } from '../shared/types';
-import { hashRow } from '../shared/utils';
-import { cleanDividendData, cleanPriceData, getTableType, tableToArray } from './detection';
+import { loadScrollPreferences, resolveScrollSettings } from '../shared/settings';
+import type {
+  CleanOptions,
+  ManualMapping,
+  ProgressUpdate,
+  RowConflict,
+  ScrollSettings,
+  TableType,
+} from '../shared/types';
+import {
+  type DetectedTable,
+  MAX_HEADER_ROWS,
+  cleanTableData,
+  getDetectedTables,
+  getPageContext,
+  getRowKeyColumns,
+  getRowKind,
+  readDetectedTable,
+  tableToArray,
+  toCorporateActionOutputs,
+} from './detection';
+import { findGrids } from './grid';
+import {
+  type PagerControl,
+  findPager,
+  getPageInfo,
+  getTableSignature,
+  isDisabledControl,
+} from './pagination';
+import { getPickedElement } from './picker';
+import { type RowCollector, createRowCollector } from './rows';
+import { waitForTableSettled } from './settle';
 
 const log = createLogger('content');
 
@@ -31,24 +58,37 @@ export function cancelCurrentDownload(): void {
 }
 
 /**
- * Finds the scrollable container for a table
+ * Checks if an element scrolls its own content vertically
+ */
+function isScrollable(element: Element): boolean {
+  const style = window.getComputedStyle(element);
+  const overflowY = style.overflowY;
+  const overflowX = style.overflow;
+
+  return (
+    (overflowY === 'auto' ||
+      overflowY === 'scroll' ||
+      overflowX === 'auto' ||
+      overflowX === 'scroll') &&
+    element.scrollHeight > element.clientHeight
+  );
+}
+
+/**
+ * Finds the scrollable container for a table or grid
  */
-function findScrollableContainer(table: HTMLTableElement): Element | null {
+function findScrollableContainer(table: Element): Element | null {
+  // Virtualized div grids (AG Grid, TanStack) scroll an inner viewport, not an ancestor
+  if (!(table instanceof HTMLTableElement)) {
+    const viewport = Array.from(table.querySelectorAll('*')).find(isScrollable);
+    if (viewport) return viewport;
+  }
+
   let element: Element | null = table;
 
   while (element && element !== document.body) {
-    const style = window.getComputedStyle(element);
-    const overflowY = style.overflowY;
-    const overflowX = style.overflow;
-
     // Check if element is scrollable
-    if (
-      (overflowY === 'auto' ||
-        overflowY === 'scroll' ||
-        overflowX === 'auto' ||
-        overflowX === 'scroll') &&
-      element.scrollHeight > element.clientHeight
-    ) {
+    if (isScrollable(element)) {
       return element;
     }
 
@@ -59,29 +99,33 @@ function findScrollableContainer(table: HTMLTableElement): Element | null {
   return document.documentElement;
 }
 
+/** Rows read from a table, with the rows whose values changed between reads */
+interface CollectedRows {
+  rows: string[][];
+  conflicts: RowConflict[];
+}
+
 /**
  * Scrolls container and collects all table rows
  */
 async function scrollAndCollectRows(
-  table: HTMLTableElement,
+  table: Element,
+  rows: RowCollector,
+  settings: ScrollSettings,
   onProgress: (update: ProgressUpdate) => void
-): Promise<string[][]> {
+): Promise<void> {
   downloadCancelled = false;
   const container = findScrollableContainer(table);
-  const uniqueRows = new Map<string, string[]>();
 
   log.debug('Starting scroll & collect');
   log.debug('Scrollable container', { container: container?.tagName });
 
   // Collect initial rows
-  const initialData = tableToArray(table);
-  for (const row of initialData) {
-    uniqueRows.set(hashRow(row), row);
-  }
+  rows.add(tableToArray(table));
 
   if (!container) {
     log.debug('No scrollable container found');
-    return Array.from(uniqueRows.values());
+    return;
   }
 
   const isWindow = container === document.documentElement;
@@ -97,17 +141,20 @@ async function scrollAndCollectRows(
     }
   };
 
-  let lastRowCount = uniqueRows.size;
+  let lastRowCount = rows.count();
   let noNewRowsCount = 0;
   let scrollAttempts = 0;
 
-  while (scrollAttempts < MAX_SCROLL_ATTEMPTS && noNewRowsCount < MAX_NO_NEW_ROWS_ATTEMPTS) {
+  while (
+    scrollAttempts < settings.maxScrollAttempts &&
+    noNewRowsCount < settings.maxNoNewRowsAttempts
+  ) {
     if (downloadCancelled) {
       log.info('Download cancelled');
       onProgress({
         action: 'downloadProgress',
         progress: 0,
-        rowsCollected: uniqueRows.size,
+        rowsCollected: rows.count(),
         status: 'cancelled',
       });
       throw new Error('Download cancelled');
@@ -117,28 +164,30 @@ async function scrollAndCollectRows(
 
     // Scroll down by one viewport height
     const clientHeight = getClientHeight();
-    scrollBy(clientHeight * SCROLL_VIEWPORT_RATIO);
+    scrollBy(clientHeight * settings.scrollViewportRatio);
 
-    // Wait for content to load
-    await new Promise((resolve) => setTimeout(resolve, SCROLL_DELAY_MS));
+    // Wait until rows stop changing and no spinner shows
+    const { timedOut } = await waitForTableSettled(
+      table,
+      settings.settleQuietMs,
+      settings.maxScrollWaitMs
+    );
+    if (timedOut) log.debug('Table still loading after scroll', { scrollAttempts });
 
     // Collect newly rendered rows
-    const currentData = tableToArray(table);
-    for (const row of currentData) {
-      uniqueRows.set(hashRow(row), row);
-    }
+    rows.add(tableToArray(table));
 
     // Calculate progress
     const scrollTop = getScrollTop();
     const scrollHeight = getScrollHeight();
     const progress = Math.min(SCROLL_PROGRESS_CAP, Math.round((scrollTop / scrollHeight) * 100));
 
-    log.debug('Scroll progress', { progress, rows: uniqueRows.size, scrollTop, scrollHeight });
+    log.debug('Scroll progress', { progress, rows: rows.count(), scrollTop, scrollHeight });
 
     onProgress({
       action: 'downloadProgress',
       progress,
-      rowsCollected: uniqueRows.size,
+      rowsCollected: rows.count(),
       status: 'scrolling',
     });
 
@@ -146,73 +195,175 @@ async function scrollAndCollectRows(
     if (scrollTop + clientHeight >= scrollHeight - BOTTOM_THRESHOLD_PX) {
       log.debug('Reached bottom of scroll');
 
-      // Wait a bit more for any final content
-      await new Promise((resolve) => setTimeout(resolve, FINAL_CONTENT_DELAY_MS));
+      // Rows fetched over the network may still arrive; wait for the table to change
+      const { changed } = await waitForTableSettled(
+        table,
+        settings.settleQuietMs,
+        settings.maxFinalWaitMs,
+        true
+      );
 
       // Final collection
-      const finalData = tableToArray(table);
-      for (const row of finalData) {
-        uniqueRows.set(hashRow(row), row);
-      }
+      rows.add(tableToArray(table));
 
-      break;
+      // More rows loaded, so this wasn't the bottom after all
+      if (!changed) break;
     }
 
     // Check if we got new rows
-    if (uniqueRows.size === lastRowCount) {
+    if (rows.count() === lastRowCount) {
       noNewRowsCount++;
     } else {
       noNewRowsCount = 0;
-      lastRowCount = uniqueRows.size;
+      lastRowCount = rows.count();
     }
   }
 
-  log.info('Collection complete', { totalRows: uniqueRows.size });
-  return Array.from(uniqueRows.values());
+  log.info('Collection complete', { totalRows: rows.count() });
 }
 
 /**
- * Handles full download request with scrolling
+ * Waits for a table to show other rows after a pager click. Frameworks often replace
+ * the whole grid when a page loads, so a table that left the page is found again
+ * by its position among the page's grids.
+ *
+ * @returns the table showing the new page, or null if nothing changed in time
  */
-export async function handleFullDownload(tableIndex: number): Promise<void> {
-  log.info('Starting full download', { tableIndex });
+async function waitForPageChange(
+  table: Element,
+  gridIndex: number,
+  signature: string
+): Promise<Element | null> {
+  const deadline = Date.now() + PAGE_LOAD_TIMEOUT_MS;
+
+  while (Date.now() < deadline && !downloadCancelled) {
+    await new Promise((resolve) => setTimeout(resolve, PAGE_POLL_INTERVAL_MS));
+
+    const current = table.isConnected ? table : (findGrids()[gridIndex] ?? null);
+    if (current && getTableSignature(current) !== signature) return current;
+  }
 
-  const allTables = document.querySelectorAll('table');
-  const validTables = Array.from(allTables).filter((table) => {
-    const type = getTableType(table as HTMLTableElement);
-    return type !== null;
-  });
+  return null;
+}
 
-  if (tableIndex >= validTables.length) {
-    log.error('Invalid table index', { tableIndex, validCount: validTables.length });
-    chrome.runtime.sendMessage({
+/**
+ * Clicks through a table's pager ("Next", numbered pages or "Load more") and
+ * collects the rows of every page. Stops on the last page (pager gone or disabled),
+ * when the table stops changing, or at the same safety limits as scrolling.
+ */
+async function pageAndCollectRows(
+  table: Element,
+  pager: PagerControl,
+  rows: RowCollector,
+  settings: ScrollSettings,
+  onProgress: (update: ProgressUpdate) => void
+): Promise<void> {
+  downloadCancelled = false;
+  const gridIndex = findGrids().indexOf(table);
+
+  log.debug('Starting page & collect', { pager: pager.kind });
+  rows.addPage(tableToArray(table));
+
+  let current = table;
+  let control: PagerControl | null = pager;
+  let pageCount = getPageInfo(pager.element).pageCount;
+  let page = 1;
+  let noNewRowsCount = 0;
+
+  while (
+    control &&
+    !isDisabledControl(control.element) &&
+    page < settings.maxScrollAttempts &&
+    noNewRowsCount < settings.maxNoNewRowsAttempts
+  ) {
+    if (downloadCancelled) {
+      log.info('Download cancelled');
+      onProgress({
+        action: 'downloadProgress',
+        progress: 0,
+        rowsCollected: rows.count(),
+        status: 'cancelled',
+      });
+      throw new Error('Download cancelled');
+    }
+
+    const lastRowCount = rows.count();
+    const signature = getTableSignature(current);
+    (control.element as HTMLElement).click();
+
+    const next = await waitForPageChange(current, gridIndex, signature);
+    if (!next) {
+      // Cancelled while waiting: reported at the top of the loop
+      if (downloadCancelled) continue;
+      log.debug('Table did not change after pager click', { page });
+      break;
+    }
+
+    // Wait for the rest of the page to render
+    await waitForTableSettled(next, settings.settleQuietMs, settings.maxScrollWaitMs);
+    current = next;
+    rows.addPage(tableToArray(current));
+    page++;
+
+    // Picked pagers are looked up by the table they were picked for
+    control = findPager(control.kind === 'picked' ? table : current);
+    pageCount = (control && getPageInfo(control.element).pageCount) || pageCount;
+
+    const progress = pageCount
+      ? Math.min(SCROLL_PROGRESS_CAP, Math.round((page / pageCount) * 100))
+      : 0;
+    log.debug('Page progress', { page, pageCount, rows: rows.count() });
+
+    onProgress({
       action: 'downloadProgress',
-      progress: 0,
-      rowsCollected: 0,
-      status: 'error',
-      error: 'Invalid table index',
-    } as ProgressUpdate);
-    return;
+      progress,
+      rowsCollected: rows.count(),
+      status: 'paging',
+      page,
+      ...(pageCount && { pageCount: Math.max(page, pageCount) }),
+    });
+
+    noNewRowsCount = rows.count() === lastRowCount ? noNewRowsCount + 1 : 0;
   }
 
-  const table = validTables[tableIndex] as HTMLTableElement;
-  const tableType = getTableType(table);
+  log.info('Collection complete', { totalRows: rows.count(), pages: page });
+}
+
+/**
+ * Reports a download that could not start or failed
+ */
+function sendDownloadError(error: string): void {
+  chrome.runtime.sendMessage({
+    action: 'downloadProgress',
+    progress: 0,
+    rowsCollected: 0,
+    status: 'error',
+    error,
+  } as ProgressUpdate);
+}
 
+/**
+ * Collects every row of a table, cleans it and sends the CSV to the popup
+ */
+async function downloadTable(
+  table: Element,
+  tableType: TableType,
+  readRows: () => Promise<CollectedRows>,
+  options: CleanOptions,
+  manual?: ManualMapping
+): Promise<void> {
   try {
-    const allRows = await scrollAndCollectRows(table, (update) => {
-      chrome.runtime.sendMessage(update).catch((err) => log.error('Failed to send progress', err));
-    });
+    const { rows: allRows, conflicts } = await readRows();
+    if (conflicts.length > 0) {
+      log.warn('Rows changed between reads', { conflicts: conflicts.length });
+    }
 
     // Filter out completely empty rows
     let filteredRows = allRows.filter((row) => row.some((cell) => cell !== ''));
 
     // Apply type-specific cleaning
-    if (tableType === 'dividend') {
-      filteredRows = cleanDividendData(filteredRows);
-    } else if (tableType === 'price') {
-      const result = cleanPriceData(filteredRows);
-      filteredRows = result.data;
-    }
+    const result = cleanTableData(tableType, filteredRows, options, getPageContext(table), manual);
+    filteredRows = result.data;
 
     // Generate CSV from all collected rows
     const csvData = Papa.unparse(filteredRows, {
@@ -228,15 +379,104 @@ export async function handleFullDownload(tableIndex: number): Promise<void> {
       rowsCollected: filteredRows.length,
       status: 'complete',
       csvData,
+      corporateActions: toCorporateActionOutputs(result.corporateActions),
+      ...(conflicts.length > 0 && { conflicts }),
     } as ProgressUpdate);
   } catch (error) {
     log.error('Error during full download', error);
-    chrome.runtime.sendMessage({
-      action: 'downloadProgress',
-      progress: 0,
-      rowsCollected: 0,
-      status: 'error',
-      error: error instanceof Error ? error.message : 'Unknown error',
-    } as ProgressUpdate);
+    sendDownloadError(error instanceof Error ? error.message : 'Unknown error');
   }
 }
+
+/**
+ * Pages through a table if it has a pager, else scrolls it, and sends progress to the
+ * popup while rows are collected. Rows are merged on the key columns of the table type.
+ * Scroll settings are read now, so changes on the options page apply to the next download.
+ */
+async function collectWithProgress(
+  table: Element,
+  tableType: TableType,
+  manual?: ManualMapping
+): Promise<CollectedRows> {
+  const settings = resolveScrollSettings(await loadScrollPreferences(), window.location.hostname);
+  log.debug('Scroll settings', settings);
+
+  const sendProgress = (update: ProgressUpdate) => {
+    chrome.runtime.sendMessage(update).catch((err) => log.error('Failed to send progress', err));
+  };
+
+  const keyColumns = getRowKeyColumns(tableType, tableToArray(table, MAX_HEADER_ROWS + 1), manual);
+  log.debug('Row key columns', { keyColumns });
+  const rows = createRowCollector(keyColumns, (row) => getRowKind(tableType, row));
+
+  const pager = findPager(table);
+  if (pager) {
+    await pageAndCollectRows(table, pager, rows, settings, sendProgress);
+  } else {
+    await scrollAndCollectRows(table, rows, settings, sendProgress);
+  }
+  return { rows: rows.getRows(), conflicts: rows.getConflicts() };
+}
+
+/**
+ * Handles full download request with scrolling or paging
+ */
+export async function handleFullDownload(tableIndex: number, options: CleanOptions): Promise<void> {
+  log.info('Starting full download', { tableIndex });
+
+  const validTables = getDetectedTables();
+
+  if (tableIndex >= validTables.length) {
+    log.error('Invalid table index', { tableIndex, validCount: validTables.length });
+    sendDownloadError('Invalid table index');
+    return;
+  }
+
+  const detected = validTables[tableIndex] as DetectedTable;
+  const { table, type: tableType } = detected;
+  const manual = detected.profile?.mapping;
+
+  // Key statistics are small label/value blocks merged across the page, nothing to scroll
+  await downloadTable(
+    table,
+    tableType,
+    async () =>
+      tableType === 'keystats'
+        ? { rows: readDetectedTable(detected, validTables), conflicts: [] }
+        : collectWithProgress(table, tableType, manual),
+    options,
+    manual
+  );
+}
+
+/**
+ * Handles full download of the picked table with the user's column mapping
+ */
+export async function handleManualDownload(
+  manual: ManualMapping,
+  options: CleanOptions
+): Promise<void> {
+  log.info('Starting manual download', { type: manual.type, columns: manual.columns });
+
+  const table = getPickedElement();
+  if (!table) {
+    sendDownloadError('The picked table is no longer on the page');
+    return;
+  }
+
+  const missing = MANUAL_MAPPING_FIELDS[manual.type].required.filter(
+    (name) => manual.columns[name] === undefined
+  );
+  if (missing.length > 0) {
+    sendDownloadError(`Map a column to: ${missing.join(', ')}`);
+    return;
+  }
+
+  await downloadTable(
+    table,
+    manual.type,
+    () => collectWithProgress(table, manual.type, manual),
+    options,
+    manual
+  );
+}
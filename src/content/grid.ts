@@ -0,0 +1,247 @@
+/**
+ * Grid abstraction for NumNom Chrome extension
+ * Reads rows and cells from <table> elements, ARIA grids and common div-based grids
+ */
+
+/** Row/cell selectors describing one grid markup style */
+interface GridAdapter {
+  row: string;
+  cell: string;
+}
+
+/** Native <table> markup */
+const TABLE_ADAPTER: GridAdapter = {
+  row: 'tr',
+  cell: 'th, td',
+};
+
+/** WAI-ARIA grid/table markup (<div role="grid">, role="row", role="gridcell") */
+const ARIA_GRID_SELECTOR = '[role="grid"], [role="treegrid"], [role="table"]';
+const ARIA_ADAPTER: GridAdapter = {
+  row: '[role="row"]',
+  cell: '[role="columnheader"], [role="rowheader"], [role="gridcell"], [role="cell"]',
+};
+
+/** Div-based grid libraries that do not (always) carry ARIA roles */
+const DIV_GRID_ADAPTERS: { grid: string; adapter: GridAdapter }[] = [
+  // AG Grid
+  {
+    grid: '.ag-root',
+    adapter: {
+      row: '.ag-header-row, .ag-row',
+      cell: '.ag-header-cell, .ag-header-group-cell, .ag-cell',
+    },
+  },
+  // react-table v6
+  {
+    grid: '.rt-table',
+    adapter: { row: '.rt-tr', cell: '.rt-th, .rt-td' },
+  },
+  // TanStack Table div markup
+  {
+    grid: 'div.table',
+    adapter: { row: '.tr', cell: '.th, .td' },
+  },
+];
+
+/**
+ * Gets the selector of a grid's row elements
+ */
+export function getRowSelector(grid: Element): string {
+  return getAdapter(grid).row;
+}
+
+/**
+ * Finds every grid on the page: native tables first, then ARIA and div grids.
+ * Grids nested inside (or wrapping) an already found grid are skipped.
+ * Result is in document order so indexes are stable between popup and content script.
+ */
+export function findGrids(root: ParentNode = document): Element[] {
+  const grids: Element[] = Array.from(root.querySelectorAll('table'));
+
+  const candidateSelector = [ARIA_GRID_SELECTOR, ...DIV_GRID_ADAPTERS.map((d) => d.grid)].join(
+    ', '
+  );
+  for (const el of Array.from(root.querySelectorAll(candidateSelector))) {
+    if (el instanceof HTMLTableElement) continue;
+    if (grids.some((grid) => grid.contains(el) || el.contains(grid))) continue;
+    grids.push(el);
+  }
+
+  return grids.sort((a, b) =>
+    a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1
+  );
+}
+
+/**
+ * Picks the adapter for a grid element (div libraries win over generic ARIA)
+ */
+function getAdapter(grid: Element): GridAdapter {
+  if (grid instanceof HTMLTableElement) return TABLE_ADAPTER;
+  for (const { grid: selector, adapter } of DIV_GRID_ADAPTERS) {
+    if (grid.matches(selector)) return adapter;
+  }
+  return ARIA_ADAPTER;
+}
+
+/**
+ * Reads a positional attribute (aria-rowindex, aria-colindex, ...) as a number
+ */
+function getIndexAttribute(el: Element, ...names: string[]): number | null {
+  for (const name of names) {
+    const value = el.getAttribute(name);
+    if (value !== null && value.trim() !== '' && !Number.isNaN(Number(value))) {
+      return Number(value);
+    }
+  }
+  return null;
+}
+
+/**
+ * Returns the cells of a row that belong to it (not to a nested row)
+ */
+function getOwnCells(row: Element, adapter: GridAdapter): Element[] {
+  return Array.from(row.querySelectorAll(adapter.cell)).filter(
+    (cell) => cell.closest(adapter.row) === row
+  );
+}
+
+/**
+ * Returns the cells of every logical row in a grid, in row order.
+ *
+ * Virtualized and pinned-column grids (e.g. AG Grid) render one logical row as
+ * several row elements sharing an aria-rowindex, and position rows absolutely
+ * so DOM order may not match visual order. Rows are merged by index and sorted
+ * by it when every row carries one; cells are sorted by aria-colindex likewise.
+ */
+export function getGridRows(grid: Element): Element[][] {
+  const adapter = getAdapter(grid);
+
+  if (adapter === TABLE_ADAPTER) {
+    return Array.from(grid.querySelectorAll('tr')).map((row) =>
+      Array.from(row.querySelectorAll('th, td'))
+    );
+  }
+
+  const rows = new Map<string, { index: number | null; cells: Element[] }>();
+  let unindexed = 0;
+
+  for (const rowEl of Array.from(grid.querySelectorAll(adapter.row))) {
+    if (rowEl.parentElement?.closest(adapter.row)) continue;
+    const index = getIndexAttribute(rowEl, 'aria-rowindex', 'row-index');
+    const key = index !== null ? `i${index}` : `u${unindexed++}`;
+    const entry = rows.get(key) ?? { index, cells: [] };
+    entry.cells.push(...getOwnCells(rowEl, adapter));
+    rows.set(key, entry);
+  }
+
+  const entries = Array.from(rows.values());
+  if (entries.every((entry) => entry.index !== null)) {
+    entries.sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+  }
+
+  return entries.map(({ cells }) => {
+    const colIndexes = cells.map((cell) => getIndexAttribute(cell, 'aria-colindex'));
+    if (cells.length > 1 && colIndexes.every((i) => i !== null)) {
+      return cells
+        .map((cell, i) => ({ cell, col: colIndexes[i] ?? 0 }))
+        .sort((a, b) => a.col - b.col)
+        .map(({ cell }) => cell);
+    }
+    return cells;
+  });
+}
+
+/**
+ * Returns the trimmed text of a grid cell
+ */
+export function getCellText(cell: Element): string {
+  return cell.textContent?.trim() || '';
+}
+
+// ============================================================================
+// Logical Grid
+// Expands colspan/rowspan into a rectangular matrix and merges multi-row headers
+// ============================================================================
+
+/** Upper bound for a single span so malformed markup can't allocate huge rows */
+const MAX_SPAN = 1000;
+
+/** Separator used to join multi-row header names ("Price · Open") */
+const HEADER_SEPARATOR = ' · ';
+
+/**
+ * Reads colspan/rowspan (or aria-colspan/aria-rowspan), defaulting to 1
+ */
+function getSpan(cell: Element, name: 'colspan' | 'rowspan'): number {
+  const value = Number(cell.getAttribute(name) ?? cell.getAttribute(`aria-${name}`) ?? 1);
+  return Number.isInteger(value) && value > 0 ? Math.min(value, MAX_SPAN) : 1;
+}
+
+/**
+ * Builds the logical grid of a set of rows: every spanned cell is repeated in each
+ * slot it covers, and rows are padded with null so the result is rectangular.
+ *
+ * @example
+ * // <tr><th rowspan="2">Date</th><th colspan="2">Price</th></tr>
+ * // <tr><th>Open</th><th>Close</th></tr>
+ * // => [[Date, Price, Price], [Date, Open, Close]]
+ */
+export function buildLogicalGrid(rows: Element[][]): (Element | null)[][] {
+  const matrix: (Element | null)[][] = rows.map(() => []);
+
+  rows.forEach((cells, r) => {
+    const row = matrix[r] as (Element | null)[];
+    let col = 0;
+
+    for (const cell of cells) {
+      // Skip slots already filled by a rowspan from a previous row
+      while (row[col] !== undefined) col++;
+
+      const colSpan = getSpan(cell, 'colspan');
+      const rowSpan = Math.min(getSpan(cell, 'rowspan'), rows.length - r);
+      for (let dr = 0; dr < rowSpan; dr++) {
+        const target = matrix[r + dr] as (Element | null)[];
+        for (let dc = 0; dc < colSpan; dc++) {
+          target[col + dc] = cell;
+        }
+      }
+      col += colSpan;
+    }
+  });
+
+  const width = matrix.reduce((max, row) => Math.max(max, row.length), 0);
+  return matrix.map((row) => Array.from({ length: width }, (_, i) => row[i] ?? null));
+}
+
+/**
+ * Checks if a row is a title/caption row: one value spread across every column
+ */
+function isTitleRow(row: string[]): boolean {
+  const values = row.map((cell) => cell.trim());
+  return values.length > 1 && values.every((value) => value !== '' && value === values[0]);
+}
+
+/**
+ * Merges the rows of a multi-row header into one composite name per column.
+ * Values repeated by a rowspan are kept once, and full-width title rows are skipped.
+ *
+ * @example
+ * mergeHeaderRows([['Date', 'Price', 'Price'], ['Date', 'Open', 'Close']])
+ * // => ['Date', 'Price · Open', 'Price · Close']
+ */
+export function mergeHeaderRows(rows: string[][]): string[] {
+  const headerRows = rows.length > 1 ? rows.filter((row) => !isTitleRow(row)) : rows;
+  const width = headerRows.reduce((max, row) => Math.max(max, row.length), 0);
+
+  return Array.from({ length: width }, (_, col) => {
+    const parts: string[] = [];
+    for (const row of headerRows) {
+      const text = row[col]?.trim() || '';
+      if (text && parts[parts.length - 1] !== text) {
+        parts.push(text);
+      }
+    }
+    return parts.join(HEADER_SEPARATOR);
+  });
+}
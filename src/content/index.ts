@@ -3,16 +3,46 @@
  * Coordinates table detection and download handling
  */
 
-import { OBSERVER_RETRY_DELAY_MS } from '../shared/constants';
+import { DETECTION_DEBOUNCE_MS, OBSERVER_RETRY_DELAY_MS } from '../shared/constants';
 import { createLogger } from '../shared/logger';
-import type { ContentScriptMessage, TablesResponse } from '../shared/types';
-import { detectTables, getValidTables } from './detection';
-import { cancelCurrentDownload, handleFullDownload } from './download';
+import {
+  SITE_PROFILES_KEY,
+  SYNONYM_SETTINGS_KEY,
+  loadSiteProfiles,
+  loadSynonymSettings,
+} from '../shared/settings';
+import { DEFAULT_SYNONYM_SETTINGS, setSynonymSettings } from '../shared/synonyms';
+import type {
+  ContentScriptMessage,
+  DiagnosticsResponse,
+  PickedTableResponse,
+  TablesResponse,
+} from '../shared/types';
+import { detectTables, getDetectedTables, getTableDiagnostics, getValidTables } from './detection';
+import { cancelCurrentDownload, handleFullDownload, handleManualDownload } from './download';
+import { clearPickedTable, getPickedTable, startPagerPicker, startPicker } from './picker';
+import { setSiteProfiles } from './profiles';
 
 const log = createLogger('content');
 
 log.info('Content script loaded');
 
+// Pending detection after page changes
+let detectionTimer: ReturnType<typeof setTimeout> | undefined;
+
+/**
+ * Runs detection a moment after the page changes, so a burst of mutations (every
+ * scroll step of a full download) costs one detection pass. The timer isn't restarted
+ * by later changes, so pages that never stop changing (live quotes) are still detected.
+ */
+function scheduleDetection(): void {
+  if (detectionTimer !== undefined) return;
+  detectionTimer = setTimeout(() => {
+    detectionTimer = undefined;
+    detectTables();
+  }, DETECTION_DEBOUNCE_MS);
+}
+
 /**
  * Sets up MutationObserver to detect dynamically added tables
  */
@@ -23,9 +53,7 @@ function setupObserver(): void {
     return;
   }
 
-  const observer = new MutationObserver(() => {
-    detectTables();
-  });
+  const observer = new MutationObserver(scheduleDetection);
 
   observer.observe(document.body, {
     childList: true,
@@ -35,8 +63,38 @@ function setupObserver(): void {
   log.info('Observer initialized');
 }
 
+/**
+ * Loads the column synonym dictionaries and site profiles, then runs detection with them.
+ * Detection still runs with the default settings, every built-in pack on, if they can't be read.
+ */
+async function initSettings(): Promise<void> {
+  try {
+    setSynonymSettings(await loadSynonymSettings());
+    setSiteProfiles(await loadSiteProfiles());
+  } catch (err) {
+    log.error('Failed to load settings', err);
+  }
+  detectTables();
+}
+
+// Re-detect when synonyms or site profiles are edited
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName !== 'local') return;
+  const synonymChange = changes[SYNONYM_SETTINGS_KEY];
+  const profileChange = changes[SITE_PROFILES_KEY];
+  if (!synonymChange && !profileChange) return;
+
+  if (synonymChange) {
+    setSynonymSettings({ ...DEFAULT_SYNONYM_SETTINGS, ...synonymChange.newValue });
+  }
+  if (profileChange) {
+    setSiteProfiles(profileChange.newValue ?? []);
+  }
+  detectTables();
+});
+
 // Run initial detection
-detectTables();
+initSettings();
 
 // Set up observer for dynamic changes
 setupObserver();
@@ -46,27 +104,67 @@ chrome.runtime.onMessage.addListener(
   (
     message: ContentScriptMessage,
     _sender: chrome.runtime.MessageSender,
-    sendResponse: (response?: TablesResponse) => void
+    sendResponse: (response?: TablesResponse | DiagnosticsResponse | PickedTableResponse) => void
   ) => {
     log.debug('Received message', message);
 
     if (message.action === 'getTables') {
       log.debug('Processing getTables request');
       try {
-        const response = getValidTables();
+        const response = getValidTables(message.options);
         log.debug('Sending response', { tableCount: response.tables.length });
         sendResponse(response);
       } catch (err) {
         log.error('Error processing getTables', err);
         sendResponse({ tables: [], ticker: '', tickerSource: 'none' });
       }
+    } else if (message.action === 'getDiagnostics') {
+      log.debug('Processing getDiagnostics request');
+      try {
+        sendResponse(getTableDiagnostics());
+      } catch (err) {
+        log.error('Error processing getDiagnostics', err);
+        sendResponse({ tables: [] });
+      }
+    } else if (message.action === 'startPicker') {
+      log.debug('Processing startPicker request');
+      startPicker();
+      sendResponse();
+    } else if (message.action === 'getPickedTable') {
+      log.debug('Processing getPickedTable request');
+      try {
+        sendResponse(getPickedTable());
+      } catch (err) {
+        log.error('Error processing getPickedTable', err);
+        sendResponse({ table: null, ticker: '' });
+      }
+    } else if (message.action === 'clearPickedTable') {
+      log.debug('Processing clearPickedTable request');
+      clearPickedTable();
+      sendResponse();
+    } else if (message.action === 'startPagerPicker') {
+      log.debug('Processing startPagerPicker request');
+      const detected = getDetectedTables()[message.tableIndex];
+      if (detected) {
+        startPagerPicker(detected.table);
+      } else {
+        log.error('Invalid table index', { tableIndex: message.tableIndex });
+      }
+      sendResponse();
     } else if (message.action === 'startFullDownload') {
       log.debug('Processing startFullDownload request');
-      handleFullDownload(message.tableIndex);
-      // Don't call sendResponse for async operation
+      handleFullDownload(message.tableIndex, message.options);
+      // Never answered: the background takes a settled request as the page going away
+    } else if (message.action === 'startManualDownload') {
+      log.debug('Processing startManualDownload request');
+      handleManualDownload(message.mapping, message.options);
     } else if (message.action === 'cancelDownload') {
       log.debug('Processing cancelDownload request');
       cancelCurrentDownload();
+      sendResponse();
+    } else if (message.action === 'watchPage') {
+      // Never answered either: the request settles when this page goes away
+      log.debug('Processing watchPage request');
     }
 
     return true; // Keep message channel open for async response
@@ -0,0 +1,219 @@
+/**
+ * Pager detection for NumNom Chrome extension
+ * Finds the controls that page through a table ("Next", numbered pages, "Load more"),
+ * so full downloads can click through pages instead of scrolling
+ */
+
+import type { PagerKind } from '../shared/types';
+import { getGridRows } from './grid';
+
+/** Elements a user can click to change pages */
+export const CLICKABLE_SELECTOR =
+  'button, a, [role="button"], [role="link"], input[type="button"], input[type="submit"]';
+
+/** How many ancestors of a table are searched for its pager */
+const PAGER_SEARCH_ANCESTORS = 3;
+
+/** "Next" controls: text, arrow glyphs, or an aria-label/title saying so */
+const NEXT_PATTERN = /^(next( page)?|next\s*[›»>→]|[›»>→]|>>)$/i;
+
+/** "Load more" controls that append rows instead of replacing them */
+const LOAD_MORE_PATTERN = /^(load|show|view|see) more(\s+\w+)?$/i;
+
+/** Class names of "next" controls (pagination-next, next-page, btn-next) */
+const NEXT_CLASS_PATTERN = /(^|[-_\s])next([-_\s]|$)/i;
+
+/** Class names of the current page in a numbered pager */
+const CURRENT_CLASS_PATTERN = /(^|[-_\s])(active|current|selected)([-_\s]|$)/i;
+
+/** A control that shows the next page of a table */
+export interface PagerControl {
+  kind: PagerKind;
+  element: Element;
+}
+
+/** Page position read from the pager, when it shows one */
+export interface PageInfo {
+  page: number | null;
+  pageCount: number | null;
+}
+
+// Pagers picked by hand, as a selector per table (pagers are often re-rendered)
+const pickedPagers = new Map<Element, string>();
+
+/**
+ * Remembers a pager picked by hand for a table
+ */
+export function setPickedPager(table: Element, selector: string): void {
+  pickedPagers.set(table, selector);
+}
+
+/**
+ * Reads the label of a control: its text, or aria-label/title/value for icon buttons
+ */
+function getControlLabel(el: Element): string {
+  const text = el.textContent?.replace(/\s+/g, ' ').trim() || '';
+  return (
+    text ||
+    el.getAttribute('aria-label') ||
+    el.getAttribute('title') ||
+    (el as HTMLInputElement).value ||
+    ''
+  ).trim();
+}
+
+/**
+ * Checks if a control is disabled (last page reached, or nothing more to load)
+ */
+export function isDisabledControl(el: Element): boolean {
+  return (
+    el.hasAttribute('disabled') ||
+    el.getAttribute('aria-disabled') === 'true' ||
+    /(^|\s)disabled(\s|$)/i.test(el.getAttribute('class') || '') ||
+    el.closest('.disabled') !== null
+  );
+}
+
+/**
+ * Checks if a control is a link to another document. Following it would unload the
+ * page (and the rows collected so far), so only in-page pagers are clicked.
+ */
+function navigatesAway(el: Element): boolean {
+  const href = el.getAttribute('href');
+  if (el.tagName !== 'A' || !href || href.startsWith('#') || /^javascript:/i.test(href)) {
+    return false;
+  }
+  try {
+    const target = new URL(href, window.location.href);
+    return target.href.split('#')[0] !== window.location.href.split('#')[0];
+  } catch {
+    // A malformed href can't be judged, so it is never clicked
+    return true;
+  }
+}
+
+/**
+ * Checks if a control moves to the next page
+ */
+function isNextControl(el: Element): boolean {
+  const label = getControlLabel(el);
+  const ariaLabel = el.getAttribute('aria-label') || el.getAttribute('title') || '';
+  return (
+    el.getAttribute('rel') === 'next' ||
+    NEXT_PATTERN.test(label) ||
+    /^next( page)?$/i.test(ariaLabel.trim()) ||
+    (NEXT_CLASS_PATTERN.test(el.getAttribute('class') || '') && !/\d/.test(label))
+  );
+}
+
+/**
+ * Reads the page number of a numbered pager button
+ */
+function getPageNumber(el: Element): number | null {
+  const label = getControlLabel(el);
+  return /^\d{1,4}$/.test(label) ? Number(label) : null;
+}
+
+/**
+ * Checks if a numbered pager button is the current page
+ */
+function isCurrentPage(el: Element): boolean {
+  return (
+    el.getAttribute('aria-current') === 'page' ||
+    el.getAttribute('aria-selected') === 'true' ||
+    CURRENT_CLASS_PATTERN.test(el.getAttribute('class') || '') ||
+    CURRENT_CLASS_PATTERN.test(el.parentElement?.getAttribute('class') || '')
+  );
+}
+
+/**
+ * Finds the button of the page after the current one in a numbered pager
+ */
+function findNextNumberedPage(controls: Element[]): Element | null {
+  const numbered = controls.filter((el) => getPageNumber(el) !== null);
+  const current = numbered.find(isCurrentPage);
+  if (!current) return null;
+
+  const nextPage = (getPageNumber(current) as number) + 1;
+  return numbered.find((el) => getPageNumber(el) === nextPage) ?? null;
+}
+
+/**
+ * Finds the pager of a table: a control picked by hand, else the closest "Next",
+ * numbered page or "Load more" control in the table or up to a few ancestors around it
+ */
+export function findPager(table: Element): PagerControl | null {
+  const pickedSelector = pickedPagers.get(table);
+  if (pickedSelector) {
+    const element = document.querySelector(pickedSelector);
+    if (element) return { kind: 'picked', element };
+  }
+
+  let scope: Element | null = table;
+  for (let level = 0; scope && level <= PAGER_SEARCH_ANCESTORS; level++) {
+    const controls = Array.from(scope.querySelectorAll(CLICKABLE_SELECTOR)).filter(
+      (el) => !navigatesAway(el)
+    );
+
+    const next = controls.find(isNextControl);
+    if (next) return { kind: 'next', element: next };
+
+    const numbered = findNextNumberedPage(controls);
+    if (numbered) return { kind: 'numbered', element: numbered };
+
+    const loadMore = controls.find((el) => LOAD_MORE_PATTERN.test(getControlLabel(el)));
+    if (loadMore) return { kind: 'load-more', element: loadMore };
+
+    scope = scope.parentElement;
+  }
+
+  return null;
+}
+
+/**
+ * Reads the text of an element with a space between its children's text, so
+ * "Page 1 of 4" next to page buttons "1" "2" doesn't read as "Page 1 of 412"
+ */
+function getSpacedText(el: Element): string {
+  return Array.from(el.childNodes)
+    .map((node) =>
+      node.nodeType === Node.ELEMENT_NODE ? getSpacedText(node as Element) : node.textContent
+    )
+    .join(' ');
+}
+
+/**
+ * Reads the page position shown around a pager control: "Page 7 of 42", or the
+ * highest numbered page button (pagers that elide pages still show the last one)
+ */
+export function getPageInfo(control: Element): PageInfo {
+  const container = control.parentElement?.parentElement ?? control.parentElement;
+  if (!container) return { page: null, pageCount: null };
+
+  const text = getSpacedText(container).replace(/\s+/g, ' ');
+  const pageOf = text.match(/\bpage\s+(\d+)\s+(?:of|\/)\s+([\d,]+)/i);
+  if (pageOf?.[1] && pageOf[2]) {
+    return { page: Number(pageOf[1]), pageCount: Number(pageOf[2].replace(/,/g, '')) };
+  }
+
+  const numbered = Array.from(container.querySelectorAll(CLICKABLE_SELECTOR))
+    .map((el) => ({ el, page: getPageNumber(el) }))
+    .filter((item): item is { el: Element; page: number } => item.page !== null);
+  if (numbered.length === 0) return { page: null, pageCount: null };
+
+  const current = numbered.find(({ el }) => isCurrentPage(el));
+  return {
+    page: current?.page ?? null,
+    pageCount: Math.max(...numbered.map(({ page }) => page)),
+  };
+}
+
+/**
+ * Summarizes what a table shows right now, to tell when a page change re-rendered it
+ */
+export function getTableSignature(table: Element): string {
+  const rows = getGridRows(table);
+  const first = rows[1]?.map((cell) => cell.textContent).join('|') || '';
+  const last = rows[rows.length - 1]?.map((cell) => cell.textContent).join('|') || '';
+  return `${rows.length}:${first}:${last}`;
+}
@@ -0,0 +1,266 @@
+/**
+ * Table picker for NumNom Chrome extension
+ * Lets the user point at a table or grid detection rejected, for manual column mapping,
+ * or at the next-page button of a table whose pager wasn't found
+ */
+
+import { PICKED_PREVIEW_ROWS, PICKER_NOTICE_MS } from '../shared/constants';
+import { createLogger } from '../shared/logger';
+import type { PickedTableResponse } from '../shared/types';
+import { MAX_HEADER_ROWS, describeElement, tableToArray } from './detection';
+import { findGrids, getGridRows, mergeHeaderRows } from './grid';
+import { CLICKABLE_SELECTOR, setPickedPager } from './pagination';
+import { extractStockTicker } from './ticker';
+
+const log = createLogger('content');
+
+/** Outline drawn over the grid or button under the cursor */
+const HIGHLIGHT_STYLE = [
+  'position: fixed',
+  'z-index: 2147483647',
+  'pointer-events: none',
+  'border: 2px solid #58a6ff',
+  'background: rgba(88, 166, 255, 0.12)',
+  'border-radius: 4px',
+].join('; ');
+
+/** Notice shown after a table or button is picked */
+const NOTICE_STYLE = [
+  'position: fixed',
+  'z-index: 2147483647',
+  'top: 16px',
+  'right: 16px',
+  'padding: 10px 14px',
+  'background: #161b22',
+  'color: #e6edf3',
+  'border: 1px solid #30363d',
+  'border-radius: 6px',
+  'font: 12px monospace',
+].join('; ');
+
+/** What the picker highlights under the cursor, and what picking it does */
+interface PickerMode {
+  find: (target: Element) => Element | null;
+  pick: (element: Element) => void;
+}
+
+// Module-level picker state
+let mode: PickerMode | null = null;
+let grids: Element[] = [];
+let highlight: HTMLElement | null = null;
+let pickedTable: Element | null = null;
+
+/**
+ * Finds the grid under the cursor. Grids are in document order, so the last
+ * one containing the target is the innermost.
+ */
+function findGridAt(target: Element): Element | null {
+  return grids.filter((grid) => grid.contains(target)).pop() ?? null;
+}
+
+/**
+ * Finds what the current mode picks under the cursor
+ */
+function findTargetAt(target: EventTarget | null): Element | null {
+  if (!mode || !(target instanceof Element)) return null;
+  return mode.find(target);
+}
+
+/**
+ * Builds a CSS selector that finds an element again on a later visit: the path from
+ * the nearest ancestor with an id, using :nth-of-type where siblings share a tag
+ */
+function getElementSelector(el: Element): string {
+  const parts: string[] = [];
+  let current: Element | null = el;
+
+  while (current && current !== document.documentElement) {
+    if (current.id) {
+      parts.unshift(`#${CSS.escape(current.id)}`);
+      break;
+    }
+    const tag = current.tagName;
+    const siblings = current.parentElement
+      ? Array.from(current.parentElement.children).filter((child) => child.tagName === tag)
+      : [];
+    const position = siblings.indexOf(current) + 1;
+    parts.unshift(
+      siblings.length > 1 ? `${tag.toLowerCase()}:nth-of-type(${position})` : tag.toLowerCase()
+    );
+    current = current.parentElement;
+  }
+
+  return parts.join(' > ');
+}
+
+/**
+ * Moves the highlight over an element, or hides it
+ */
+function highlightElement(el: Element | null): void {
+  if (!highlight) return;
+  if (!el) {
+    highlight.style.display = 'none';
+    return;
+  }
+
+  const rect = el.getBoundingClientRect();
+  Object.assign(highlight.style, {
+    display: 'block',
+    top: `${rect.top}px`,
+    left: `${rect.left}px`,
+    width: `${rect.width}px`,
+    height: `${rect.height}px`,
+  });
+}
+
+/**
+ * Shows a short notice on the page
+ */
+function showNotice(text: string): void {
+  const notice = document.createElement('div');
+  notice.style.cssText = NOTICE_STYLE;
+  notice.textContent = text;
+  document.body.appendChild(notice);
+  setTimeout(() => notice.remove(), PICKER_NOTICE_MS);
+}
+
+/**
+ * Highlights what would be picked under the cursor
+ */
+function handleMouseMove(e: MouseEvent): void {
+  highlightElement(findTargetAt(e.target));
+}
+
+/**
+ * Picks the element under the cursor; other clicks are left to the page
+ */
+function handleClick(e: MouseEvent): void {
+  const pick = mode?.pick;
+  const target = findTargetAt(e.target);
+  if (!pick || !target) return;
+
+  e.preventDefault();
+  e.stopPropagation();
+  stopPicker();
+  pick(target);
+}
+
+/**
+ * Cancels picking on Escape
+ */
+function handleKeyDown(e: KeyboardEvent): void {
+  if (e.key === 'Escape') {
+    stopPicker();
+    log.info('Picker cancelled');
+  }
+}
+
+/**
+ * Stops picking and removes the highlight
+ */
+function stopPicker(): void {
+  document.removeEventListener('mousemove', handleMouseMove, true);
+  document.removeEventListener('click', handleClick, true);
+  document.removeEventListener('keydown', handleKeyDown, true);
+  highlight?.remove();
+  highlight = null;
+  mode = null;
+  grids = [];
+}
+
+/**
+ * Starts highlighting what a mode picks under the cursor, until one is clicked
+ * (or Escape is pressed)
+ */
+function startPicking(pickerMode: PickerMode): void {
+  stopPicker();
+  mode = pickerMode;
+
+  highlight = document.createElement('div');
+  highlight.style.cssText = `${HIGHLIGHT_STYLE}; display: none`;
+  document.body.appendChild(highlight);
+
+  document.addEventListener('mousemove', handleMouseMove, true);
+  document.addEventListener('click', handleClick, true);
+  document.addEventListener('keydown', handleKeyDown, true);
+}
+
+/**
+ * Starts picking a table or grid for manual column mapping
+ */
+export function startPicker(): void {
+  startPicking({
+    find: findGridAt,
+    pick: (grid) => {
+      pickedTable = grid;
+      log.info('Table picked', { element: describeElement(grid) });
+      showNotice('Table picked. Open NumNom to map its columns.');
+    },
+  });
+  grids = findGrids();
+  log.info('Picker started', { grids: grids.length });
+}
+
+/**
+ * Starts picking the button that shows the next page of a table. The button is
+ * remembered by selector, since pagers are often re-rendered on every page.
+ */
+export function startPagerPicker(table: Element): void {
+  startPicking({
+    // Icon pagers are often plain spans or divs with a click handler
+    find: (target) => target.closest(CLICKABLE_SELECTOR) ?? target,
+    pick: (button) => {
+      setPickedPager(table, getElementSelector(button));
+      log.info('Pager picked', { element: describeElement(button) });
+      showNotice('Next-page button picked. Open NumNom to download the table.');
+    },
+  });
+  log.info('Pager picker started', { table: describeElement(table) });
+}
+
+/**
+ * Returns the picked table, if it is still on the page
+ */
+export function getPickedElement(): Element | null {
+  if (pickedTable && !pickedTable.isConnected) {
+    pickedTable = null;
+  }
+  return pickedTable;
+}
+
+/**
+ * Forgets the picked table
+ */
+export function clearPickedTable(): void {
+  pickedTable = null;
+}
+
+/**
+ * Describes the picked table for the mapping screen: a preview of its first rows
+ * and the column names for each possible number of header rows
+ */
+export function getPickedTable(): PickedTableResponse {
+  const table = getPickedElement();
+  if (!table) return { table: null, ticker: '' };
+
+  const data = tableToArray(table, MAX_HEADER_ROWS + PICKED_PREVIEW_ROWS).filter((row) =>
+    row.some((cell) => cell !== '')
+  );
+  const width = data[0]?.length ?? 0;
+  const headers = [Array.from({ length: width }, () => '')];
+  for (let i = 1; i <= Math.min(MAX_HEADER_ROWS, data.length - 1); i++) {
+    headers.push(mergeHeaderRows(data.slice(0, i)));
+  }
+
+  const { ticker } = extractStockTicker();
+  return {
+    table: {
+      element: describeElement(table),
+      selector: getElementSelector(table),
+      rows: getGridRows(table).length,
+      headers,
+      preview: data,
+    },
+    ticker,
+  };
+}
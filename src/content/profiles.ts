@@ -0,0 +1,36 @@
+/**
+ * Site profiles on the current page for NumNom Chrome extension
+ * Finds the tables saved profiles point at, so they skip header detection
+ */
+
+import { createLogger } from '../shared/logger';
+import { findSiteProfiles } from '../shared/profiles';
+import type { SiteProfile } from '../shared/types';
+
+const log = createLogger('content');
+
+let savedProfiles: SiteProfile[] = [];
+
+/**
+ * Replaces the saved profiles (called when settings load or change)
+ */
+export function setSiteProfiles(profiles: SiteProfile[]): void {
+  savedProfiles = profiles;
+}
+
+/**
+ * Finds the tables that profiles for the current page point at.
+ * The most specific profile wins when several select the same element.
+ */
+export function findProfileTables(): Map<Element, SiteProfile> {
+  const tables = new Map<Element, SiteProfile>();
+  for (const profile of findSiteProfiles(savedProfiles, window.location.href)) {
+    try {
+      const table = document.querySelector(profile.selector);
+      if (table && !tables.has(table)) tables.set(table, profile);
+    } catch (err) {
+      log.error('Invalid profile selector', { selector: profile.selector, err });
+    }
+  }
+  return tables;
+}
@@ -0,0 +1,95 @@
+/**
+ * Row collection for NumNom Chrome extension
+ * Merges the rows seen across scrolls and pages, keyed on the columns that identify a row
+ */
+
+import type { RowConflict } from '../shared/types';
+import { hashRow } from '../shared/utils';
+
+/** Rows collected from repeated reads of a table */
+export interface RowCollector {
+  add(snapshot: string[][]): void; // one read of the table, rows in DOM order
+  addPage(page: string[][]): void; // one page of a paged table, rows in DOM order
+  count(): number;
+  getRows(): string[][]; // in the order rows were first seen
+  getConflicts(): RowConflict[];
+}
+
+/**
+ * Creates a collector for a table's rows.
+ *
+ * Rows are keyed on keyColumns (the date of a price row, the ex-date, amount and
+ * indicator of a dividend), or on all cells when the table has no key or a row's key
+ * cells are empty. Rows sharing a key within one read are told apart by their
+ * position among them (first, second, ...), so genuinely identical rows are all kept.
+ * Pages carry that count on, so identical rows either side of a page break are both
+ * kept; a row only counts as read again when the same row was at its place before,
+ * as on a page read twice or kept above rows a "Load more" added.
+ * A row read again with other values replaces the earlier read and is reported as
+ * a conflict, e.g. a live last price that ticked during the download.
+ *
+ * @param getRowKind - Sorts rows sharing key cells into kinds keyed apart, e.g. a
+ *   dividend row on the same date as a price row
+ */
+export function createRowCollector(
+  keyColumns: number[] | null,
+  getRowKind?: (row: string[]) => string
+): RowCollector {
+  const rows = new Map<string, string[]>();
+  const conflicts = new Map<string, RowConflict>();
+  // Across pages: rows seen so far per key, and the occurrence given at each place
+  const pageOccurrences = new Map<string, number>();
+  const placedOccurrences = new Map<string, number>();
+
+  const getRowKey = (row: string[]): string => {
+    const keyCells = keyColumns?.map((i) => row[i] ?? '');
+    return keyCells?.some((cell) => cell.trim() !== '') ? hashRow(keyCells) : hashRow(row);
+  };
+
+  const getKindKey = (row: string[], rowKey: string): string =>
+    getRowKind ? `${getRowKind(row)}:${rowKey}` : rowKey;
+
+  const addRow = (row: string[], rowKey: string, kindKey: string, occurrence: number) => {
+    const key = `${kindKey}#${occurrence}`;
+    const previous = rows.get(key);
+    if (previous && hashRow(previous) !== hashRow(row)) {
+      // Keep the first value read, so a cell ticking back and forth reads as one conflict
+      const first = conflicts.get(key)?.previous ?? previous;
+      conflicts.set(key, { key: rowKey, occurrence, previous: first, current: row });
+    }
+    rows.set(key, row);
+  };
+
+  return {
+    add: (snapshot) => {
+      const occurrences = new Map<string, number>();
+      for (const row of snapshot) {
+        const rowKey = getRowKey(row);
+        const kindKey = getKindKey(row, rowKey);
+        const occurrence = (occurrences.get(kindKey) ?? 0) + 1;
+        occurrences.set(kindKey, occurrence);
+        addRow(row, rowKey, kindKey, occurrence);
+      }
+    },
+    addPage: (page) => {
+      page.forEach((row, index) => {
+        const rowKey = getRowKey(row);
+        const kindKey = getKindKey(row, rowKey);
+        const place = `${kindKey}@${index}`;
+        let occurrence = placedOccurrences.get(place);
+        if (occurrence === undefined) {
+          occurrence = (pageOccurrences.get(kindKey) ?? 0) + 1;
+          pageOccurrences.set(kindKey, occurrence);
+          placedOccurrences.set(place, occurrence);
+        }
+        addRow(row, rowKey, kindKey, occurrence);
+      });
+    },
+    count: () => rows.size,
+    getRows: () => Array.from(rows.values()),
+    getConflicts: () =>
+      Array.from(conflicts.values()).filter(
+        ({ previous, current }) => hashRow(previous) !== hashRow(current)
+      ),
+  };
+}
@@ -0,0 +1,117 @@
+/**
+ * Load detection for NumNom Chrome extension
+ * Watches a table for rows being added or removed and for loading spinners, so
+ * downloads wait exactly as long as a page takes to render new rows
+ */
+
+import { getRowSelector } from './grid';
+
+/** Class name starts of spinners and placeholders ("spinner", "loader-overlay") */
+const LOADING_CLASS_PREFIXES = ['spinner', 'loading', 'loader', 'skeleton'];
+
+/**
+ * Elements that show a table is still loading: busy regions, progress bars and classes
+ * starting with a loading word. A word inside a class name ("lazyloading") doesn't count.
+ */
+const LOADING_INDICATOR_SELECTOR = [
+  '[aria-busy="true"]',
+  '[role="progressbar"]',
+  ...LOADING_CLASS_PREFIXES.flatMap((prefix) => [
+    `[class^="${prefix}" i]`,
+    `[class*=" ${prefix}" i]`,
+  ]),
+].join(', ');
+
+/** How many ancestors of a table are searched for its loading indicator */
+const LOADING_SEARCH_ANCESTORS = 2;
+
+/** How a wait for a table ended */
+export interface SettleResult {
+  changed: boolean; // the table changed while waiting
+  timedOut: boolean; // the table was still changing or loading when the wait ran out
+}
+
+/**
+ * Checks if an element takes up space on the page (hidden spinners often stay in the DOM)
+ */
+function isVisible(el: Element): boolean {
+  return el.getClientRects().length > 0;
+}
+
+/**
+ * Checks if a mutation added or removed rows. Cell text changing, such as a ticking
+ * live price, doesn't count, or a quote table would never settle.
+ */
+function changesRows(mutation: MutationRecord, rowSelector: string): boolean {
+  return [...Array.from(mutation.addedNodes), ...Array.from(mutation.removedNodes)].some(
+    (node) =>
+      node instanceof Element &&
+      (node.matches(rowSelector) || node.querySelector(rowSelector) !== null)
+  );
+}
+
+/**
+ * Checks if a loading indicator is showing in or around a table
+ */
+export function isTableLoading(table: Element): boolean {
+  let scope: Element | null = table;
+  for (let level = 0; scope && level <= LOADING_SEARCH_ANCESTORS; level++) {
+    if (scope.matches('[aria-busy="true"]')) return true;
+    if (Array.from(scope.querySelectorAll(LOADING_INDICATOR_SELECTOR)).some(isVisible)) {
+      return true;
+    }
+    scope = scope.parentElement;
+  }
+  return false;
+}
+
+/**
+ * Waits until no rows have been added or removed for quietMs and no loading indicator
+ * shows, or until timeoutMs runs out.
+ *
+ * @param waitForChange - Keep waiting until the table changes at least once (for rows
+ *   that may still be fetched), instead of settling on a table that never changes
+ */
+export function waitForTableSettled(
+  table: Element,
+  quietMs: number,
+  timeoutMs: number,
+  waitForChange = false
+): Promise<SettleResult> {
+  return new Promise((resolve) => {
+    let changed = false;
+    let quietTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const finish = (timedOut: boolean) => {
+      observer.disconnect();
+      clearTimeout(quietTimer);
+      clearTimeout(timeoutTimer);
+      resolve({ changed, timedOut });
+    };
+
+    // Restarts the quiet period; a showing spinner keeps the table unsettled
+    const armQuietTimer = () => {
+      clearTimeout(quietTimer);
+      quietTimer = setTimeout(() => {
+        if (isTableLoading(table) || (waitForChange && !changed)) {
+          armQuietTimer();
+        } else {
+          finish(false);
+        }
+      }, quietMs);
+    };
+
+    // A picked element with no rows we know of counts any element added or removed
+    const gridRows = getRowSelector(table);
+    const rowSelector = table.querySelector(gridRows) ? gridRows : '*';
+    const observer = new MutationObserver((mutations) => {
+      if (!mutations.some((mutation) => changesRows(mutation, rowSelector))) return;
+      changed = true;
+      armQuietTimer();
+    });
+    observer.observe(table, { childList: true, subtree: true });
+
+    const timeoutTimer = setTimeout(() => finish(true), timeoutMs);
+    armQuietTimer();
+  });
+}
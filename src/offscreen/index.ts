@@ -0,0 +1,47 @@
+/**
+ * Offscreen document that makes blob URLs of the files download jobs save.
+ * The service worker can't create blob URLs itself, and data URLs over 2 MB are
+ * refused, so large histories and ZIP bundles are handed over here instead.
+ * It also holds the files of bundles being collected, which would be lost with the
+ * service worker's memory when it is stopped between tables.
+ */
+
+import { createLogger } from '../shared/logger';
+import type { FileUrlResponse, OffscreenMessage } from '../shared/types';
+import { type ZipEntry, createZip } from '../shared/zip';
+
+const log = createLogger('offscreen');
+
+// Files of the bundles being collected by tab
+const bundleFiles = new Map<number, ZipEntry[]>();
+
+/**
+ * Listen for files from the background; other extension messages are not for this page
+ */
+chrome.runtime.onMessage.addListener(
+  (
+    message: OffscreenMessage,
+    _sender: chrome.runtime.MessageSender,
+    sendResponse: (response?: FileUrlResponse) => void
+  ) => {
+    if (message.action === 'createFileUrl') {
+      const blob = new Blob([message.content], { type: `${message.mimeType};charset=utf-8` });
+      sendResponse({ url: URL.createObjectURL(blob) });
+    } else if (message.action === 'addBundleFile') {
+      const files = bundleFiles.get(message.tabId) ?? [];
+      files.push(message.entry);
+      bundleFiles.set(message.tabId, files);
+      sendResponse();
+    } else if (message.action === 'createZipUrl') {
+      const entries = [message.manifest, ...(bundleFiles.get(message.tabId) ?? [])];
+      bundleFiles.delete(message.tabId);
+      const blob = new Blob([createZip(entries)], { type: 'application/zip' });
+      log.debug('ZIP created', { files: entries.length, bytes: blob.size });
+      sendResponse({ url: URL.createObjectURL(blob) });
+    } else if (message.action === 'discardBundle') {
+      bundleFiles.delete(message.tabId);
+    } else if (message.action === 'revokeFileUrl') {
+      URL.revokeObjectURL(message.url);
+    }
+  }
+);
@@ -0,0 +1,454 @@
+/**
+ * Options page script for NumNom Chrome extension
+ * Edits the column synonym packs and the user's own synonym dictionary,
+ * manages site profiles saved from the popup, and sets scroll limits
+ */
+
+import { BUTTON_RESET_DELAY_MS } from '../shared/constants';
+import { createLogger } from '../shared/logger';
+import {
+  describeProfile,
+  formatProfilesJson,
+  mergeProfiles,
+  parseProfilesJson,
+} from '../shared/profiles';
+import {
+  loadScrollPreferences,
+  loadSiteProfiles,
+  loadSynonymSettings,
+  saveScrollPreferences,
+  saveSiteProfiles,
+  saveSynonymSettings,
+} from '../shared/settings';
+import { SYNONYM_PACKS, formatSynonymText, parseSynonymText } from '../shared/synonyms';
+import type {
+  ScrollPreferences,
+  ScrollSettings,
+  SiteProfile,
+  SynonymPackId,
+  SynonymSettings,
+} from '../shared/types';
+import { formatDateForFilename } from '../shared/utils';
+
+const log = createLogger('options');
+
+/**
+ * Renders a checkbox per built-in synonym pack
+ */
+function renderPacks(settings: SynonymSettings): void {
+  const list = document.getElementById('pack-list');
+  if (!list) return;
+
+  list.innerHTML = (Object.keys(SYNONYM_PACKS) as SynonymPackId[])
+    .map((id) => {
+      const checked = settings.packs.includes(id) ? ' checked' : '';
+      return `
+    <label class="option">
+      <input type="checkbox" class="pack-checkbox" value="${id}"${checked}>
+      ${SYNONYM_PACKS[id].label}
+    </label>`;
+    })
+    .join('');
+}
+
+/**
+ * Shows a result next to a section's buttons, clearing it after a moment
+ */
+function showStatus(message: string, isError = false, statusId = 'save-status'): void {
+  const status = document.getElementById(statusId);
+  if (!status) return;
+
+  status.textContent = message;
+  status.classList.toggle('error', isError);
+  if (!isError) {
+    setTimeout(() => {
+      status.textContent = '';
+    }, BUTTON_RESET_DELAY_MS);
+  }
+}
+
+/**
+ * Reads the form and saves the synonym settings.
+ * Nothing is saved while the dictionary has lines that can't be read.
+ */
+async function handleSave(): Promise<void> {
+  const input = document.getElementById('synonym-input') as HTMLTextAreaElement;
+  const { dictionary, invalidLines } = parseSynonymText(input.value);
+  if (invalidLines.length > 0) {
+    showStatus(`Expected "term = words" on line ${invalidLines.join(', ')}`, true);
+    return;
+  }
+
+  const packs = Array.from(document.querySelectorAll('.pack-checkbox'))
+    .filter((checkbox) => (checkbox as HTMLInputElement).checked)
+    .map((checkbox) => (checkbox as HTMLInputElement).value as SynonymPackId);
+
+  try {
+    await saveSynonymSettings({ packs, custom: dictionary });
+    log.info('Synonym settings saved', { packs, terms: Object.keys(dictionary).length });
+    showStatus('Saved');
+  } catch (err) {
+    log.error('Failed to save synonym settings', err);
+    showStatus('Could not save settings', true);
+  }
+}
+
+// ============================================================================
+// Site Profiles
+// Lists, deletes, exports and imports the mappings remembered from the popup
+// ============================================================================
+
+/**
+ * Escapes profile text (hostnames, selectors from imported files) for use in innerHTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Renders the saved profiles, each with a Delete button
+ */
+function renderProfiles(profiles: SiteProfile[]): void {
+  const list = document.getElementById('profile-list');
+  if (!list) return;
+
+  if (profiles.length === 0) {
+    list.innerHTML = '<p class="hint">No profiles yet.</p>';
+    return;
+  }
+
+  list.innerHTML = profiles
+    .map((profile, i) => {
+      const ticker = profile.ticker ? ` · ticker ${escapeHtml(profile.ticker)}` : '';
+      return `
+    <div class="profile-item">
+      <div>
+        <div>${escapeHtml(describeProfile(profile))}</div>
+        <div class="profile-detail">${escapeHtml(profile.selector)}${ticker}</div>
+      </div>
+      <button class="link-btn delete-profile" data-index="${i}">Delete</button>
+    </div>`;
+    })
+    .join('');
+
+  for (const button of Array.from(list.querySelectorAll('.delete-profile'))) {
+    button.addEventListener('click', () => {
+      deleteProfile(Number((button as HTMLButtonElement).dataset.index));
+    });
+  }
+}
+
+/**
+ * Saves profiles and shows them
+ */
+async function updateProfiles(profiles: SiteProfile[], message: string): Promise<void> {
+  try {
+    await saveSiteProfiles(profiles);
+    renderProfiles(profiles);
+    showStatus(message, false, 'profile-status');
+  } catch (err) {
+    log.error('Failed to save site profiles', err);
+    showStatus('Could not save profiles', true, 'profile-status');
+  }
+}
+
+/**
+ * Deletes one saved profile
+ */
+async function deleteProfile(index: number): Promise<void> {
+  const profiles = await loadSiteProfiles();
+  await updateProfiles(
+    profiles.filter((_, i) => i !== index),
+    'Deleted'
+  );
+}
+
+/**
+ * Downloads every saved profile as one JSON file
+ */
+async function exportProfiles(): Promise<void> {
+  const profiles = await loadSiteProfiles();
+  const blob = new Blob([formatProfilesJson(profiles)], {
+    type: 'application/json;charset=utf-8;',
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `numnom-profiles_${formatDateForFilename(new Date())}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+  log.info('Site profiles exported', { count: profiles.length });
+}
+
+/**
+ * Imports profiles from an exported file, replacing saved ones for the same table
+ */
+async function importProfiles(file: File): Promise<void> {
+  const { profiles: imported, error } = parseProfilesJson(await file.text());
+  if (error) {
+    showStatus(error, true, 'profile-status');
+    return;
+  }
+
+  const profiles = mergeProfiles(await loadSiteProfiles(), imported);
+  log.info('Site profiles imported', { count: imported.length });
+  await updateProfiles(profiles, `Imported ${imported.length} profile(s)`);
+}
+
+// ============================================================================
+// Scroll Settings
+// Global scroll and timing limits of full downloads, with per-domain overrides
+// ============================================================================
+
+/** A scroll setting as edited on the page, with its allowed range */
+interface ScrollField {
+  key: keyof ScrollSettings;
+  label: string;
+  short: string; // column heading of the per-site table
+  min: number;
+  max: number;
+  step: number;
+}
+
+const SCROLL_FIELDS: ScrollField[] = [
+  {
+    key: 'settleQuietMs',
+    label: 'Rows loaded after no changes for (ms)',
+    short: 'Quiet',
+    min: 50,
+    max: 5000,
+    step: 50,
+  },
+  {
+    key: 'maxScrollWaitMs',
+    label: 'Longest wait after each scroll (ms)',
+    short: 'Wait',
+    min: 100,
+    max: 30000,
+    step: 100,
+  },
+  {
+    key: 'maxFinalWaitMs',
+    label: 'Longest wait for more rows at the bottom (ms)',
+    short: 'Final',
+    min: 0,
+    max: 30000,
+    step: 100,
+  },
+  {
+    key: 'maxScrollAttempts',
+    label: 'Maximum scrolls',
+    short: 'Scrolls',
+    min: 1,
+    max: 100000,
+    step: 1,
+  },
+  {
+    key: 'maxNoNewRowsAttempts',
+    label: 'Scrolls without new rows before stopping',
+    short: 'Idle',
+    min: 1,
+    max: 100,
+    step: 1,
+  },
+  {
+    key: 'scrollViewportRatio',
+    label: 'Scroll step (share of the viewport)',
+    short: 'Step',
+    min: 0.1,
+    max: 1,
+    step: 0.05,
+  },
+];
+
+/**
+ * Renders a number input for one scroll setting (blank when there is no value)
+ */
+function renderNumberInput(field: ScrollField, value: number | undefined, id = ''): string {
+  const idAttr = id ? ` id="${id}"` : '';
+  const valueAttr = value === undefined ? '' : ` value="${value}"`;
+  return `<input type="number" class="number-input"${idAttr} data-key="${field.key}" min="${field.min}" max="${field.max}" step="${field.step}"${valueAttr}>`;
+}
+
+/**
+ * Renders the global scroll settings
+ */
+function renderScrollDefaults(defaults: ScrollSettings): void {
+  const container = document.getElementById('scroll-fields');
+  if (!container) return;
+
+  container.innerHTML = SCROLL_FIELDS.map(
+    (field) => `
+    <label for="scroll-${field.key}">${field.label}</label>
+    ${renderNumberInput(field, defaults[field.key], `scroll-${field.key}`)}`
+  ).join('');
+}
+
+/**
+ * Adds a per-site override row; blank fields fall back to the global settings
+ */
+function addDomainRow(domain: string, overrides: Partial<ScrollSettings>): void {
+  const list = document.getElementById('domain-list');
+  if (!list) return;
+
+  const row = document.createElement('tr');
+  row.className = 'domain-row';
+  row.innerHTML = `
+    <td><input type="text" class="domain-input" value="${escapeHtml(domain)}" placeholder="example.com" spellcheck="false"></td>
+    ${SCROLL_FIELDS.map((field) => `<td>${renderNumberInput(field, overrides[field.key])}</td>`).join('')}
+    <td><button class="link-btn remove-domain">Remove</button></td>
+  `;
+  row.querySelector('.remove-domain')?.addEventListener('click', () => row.remove());
+  list.appendChild(row);
+}
+
+/**
+ * Renders the per-site override table
+ */
+function renderDomainOverrides(domains: ScrollPreferences['domains']): void {
+  const head = document.getElementById('domain-head');
+  if (head) {
+    const headings = SCROLL_FIELDS.map((field) => `<th title="${field.label}">${field.short}</th>`);
+    head.innerHTML = `<tr><th>Domain</th>${headings.join('')}<th></th></tr>`;
+  }
+
+  const list = document.getElementById('domain-list');
+  if (list) list.innerHTML = '';
+  for (const [domain, overrides] of Object.entries(domains)) {
+    addDomainRow(domain, overrides);
+  }
+}
+
+/**
+ * Reads a scroll setting input: undefined when blank, an error when out of range
+ */
+function readNumberInput(input: HTMLInputElement): number | undefined | Error {
+  const field = SCROLL_FIELDS.find((f) => f.key === input.dataset.key) as ScrollField;
+  if (input.value.trim() === '') return undefined;
+
+  const value = Number(input.value);
+  if (!Number.isFinite(value) || value < field.min || value > field.max) {
+    return new Error(`${field.label} must be between ${field.min} and ${field.max}`);
+  }
+  return value;
+}
+
+/**
+ * Normalizes a typed domain: lowercase hostname without scheme, path or port
+ */
+function normalizeDomain(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/[/:?#].*$/, '');
+}
+
+/**
+ * Reads the scroll section of the form
+ *
+ * @returns preferences, or an error naming the first invalid field
+ */
+function readScrollPreferences(): { preferences: ScrollPreferences | null; error: string | null } {
+  const defaults = {} as ScrollSettings;
+  for (const field of SCROLL_FIELDS) {
+    const input = document.getElementById(`scroll-${field.key}`) as HTMLInputElement;
+    const value = readNumberInput(input);
+    if (value instanceof Error) return { preferences: null, error: value.message };
+    if (value === undefined) return { preferences: null, error: `${field.label} needs a value` };
+    defaults[field.key] = value;
+  }
+
+  const domains: ScrollPreferences['domains'] = {};
+  for (const row of Array.from(document.querySelectorAll('.domain-row'))) {
+    const domainInput = row.querySelector('.domain-input') as HTMLInputElement;
+    const domain = normalizeDomain(domainInput.value);
+    const overrides: Partial<ScrollSettings> = {};
+    for (const input of Array.from(row.querySelectorAll('.number-input'))) {
+      const value = readNumberInput(input as HTMLInputElement);
+      if (value instanceof Error)
+        return { preferences: null, error: `${domain}: ${value.message}` };
+      const key = (input as HTMLInputElement).dataset.key as keyof ScrollSettings;
+      if (value !== undefined) overrides[key] = value;
+    }
+
+    if (!domain) {
+      if (Object.keys(overrides).length > 0) {
+        return { preferences: null, error: 'Enter a domain for every site override' };
+      }
+      continue;
+    }
+    domains[domain] = overrides;
+  }
+
+  return { preferences: { defaults, domains }, error: null };
+}
+
+/**
+ * Saves the scroll section. Nothing is saved while a value is out of range.
+ */
+async function handleScrollSave(): Promise<void> {
+  const { preferences, error } = readScrollPreferences();
+  if (!preferences) {
+    showStatus(error ?? 'Invalid settings', true, 'scroll-status');
+    return;
+  }
+
+  try {
+    await saveScrollPreferences(preferences);
+    log.info('Scroll settings saved', { domains: Object.keys(preferences.domains).length });
+    renderDomainOverrides(preferences.domains);
+    showStatus('Saved', false, 'scroll-status');
+  } catch (err) {
+    log.error('Failed to save scroll settings', err);
+    showStatus('Could not save settings', true, 'scroll-status');
+  }
+}
+
+/**
+ * Loads saved settings into the form
+ */
+async function init(): Promise<void> {
+  const settings = await loadSynonymSettings();
+  renderPacks(settings);
+
+  const input = document.getElementById('synonym-input') as HTMLTextAreaElement;
+  input.value = formatSynonymText(settings.custom);
+
+  document.getElementById('save-btn')?.addEventListener('click', () => {
+    handleSave();
+  });
+
+  renderProfiles(await loadSiteProfiles());
+
+  const scrollPreferences = await loadScrollPreferences();
+  renderScrollDefaults(scrollPreferences.defaults);
+  renderDomainOverrides(scrollPreferences.domains);
+
+  document.getElementById('add-domain-btn')?.addEventListener('click', () => {
+    addDomainRow('', {});
+  });
+  document.getElementById('scroll-save-btn')?.addEventListener('click', () => {
+    handleScrollSave();
+  });
+
+  document.getElementById('export-profiles-btn')?.addEventListener('click', () => {
+    exportProfiles();
+  });
+
+  const fileInput = document.getElementById('import-profiles-input') as HTMLInputElement;
+  document.getElementById('import-profiles-btn')?.addEventListener('click', () => {
+    fileInput.click();
+  });
+  fileInput.addEventListener('change', () => {
+    const file = fileInput.files?.[0];
+    if (file) importProfiles(file);
+    fileInput.value = '';
+  });
+}
+
+init();
@@ -2,17 +2,53 @@
  * Popup script that displays detected tables and allows CSV download
  */
 
-import { BUTTON_RESET_DELAY_MS } from '../shared/constants';
+import { BUTTON_RESET_DELAY_MS, MANUAL_MAPPING_FIELDS } from '../shared/constants';
+import { buildCorporateActionFilename, getExportMimeType } from '../shared/export';
 import { createLogger } from '../shared/logger';
+import { findSiteProfiles, mergeProfiles } from '../shared/profiles';
+import {
+  DEFAULT_CLEAN_OPTIONS,
+  loadCleanOptions,
+  loadSiteProfiles,
+  saveCleanOptions,
+  saveSiteProfiles,
+} from '../shared/settings';
+import { TIMEZONE_CHOICES } from '../shared/timezone';
 import type {
   CancelDownloadMessage,
+  CleanOptions,
+  ClearPickedTableMessage,
+  CorporateActionOutput,
+  CorporateActionType,
+  DateOrder,
+  DiagnosticsResponse,
+  DownloadJob,
+  DownloadTarget,
+  ExportFormat,
+  GetDiagnosticsMessage,
+  GetDownloadJobMessage,
+  GetPickedTableMessage,
   GetTablesMessage,
+  JobProgressMessage,
+  JobTable,
+  ManualMapping,
+  ManualTableType,
+  PagerKind,
+  PickedTable,
+  PickedTableResponse,
   ProgressUpdate,
-  StartFullDownloadMessage,
+  RowConflict,
+  SiteProfile,
+  StartDownloadJobMessage,
+  StartPagerPickerMessage,
+  StartPickerMessage,
+  StatementLayout,
+  TableDiagnosis,
+  TableInfo,
   TableType,
   TablesResponse,
+  TickerSource,
 } from '../shared/types';
-import { formatDateForFilename } from '../shared/utils';
 
 const log = createLogger('popup');
 
@@ -25,51 +61,103 @@ function isValidTicker(ticker: string): boolean {
   return ticker.length > 0 && TICKER_REGEX.test(ticker);
 }
 
+// Badge labels per table type
+const TABLE_TYPE_LABELS: Record<TableType, string> = {
+  price: 'Price',
+  close: 'Close',
+  dividend: 'Dividend',
+  split: 'Split',
+  earnings: 'Earnings',
+  statement: 'Statement',
+  options: 'Options',
+  insider: 'Insider',
+  holders: 'Holders',
+  quotes: 'Quotes',
+  keystats: 'Key Stats',
+};
+
+// Table types listing many symbols (one per row), downloaded without the page ticker
+const MULTI_SYMBOL_TYPES = new Set<TableType>(['quotes']);
+
+// Changed rows listed in the tooltip of a download's conflict note
+const CONFLICT_EXAMPLES = 5;
+
+// Button labels for dividend/split rows split out of price tables
+const CORPORATE_ACTION_LABELS: Record<CorporateActionType, string> = {
+  dividend: 'Dividends',
+  split: 'Splits',
+};
+
+// Labels of the table types a picked table can be mapped to
+const MANUAL_TYPE_LABELS: Record<ManualTableType, string> = {
+  price: 'Price',
+  dividend: 'Dividend',
+};
+
+// Day/month order choices for a picked table's dates ('' = infer from the values)
+const DATE_ORDER_LABELS: Record<DateOrder | '', string> = {
+  '': 'Auto',
+  MDY: 'MM/DD',
+  DMY: 'DD/MM',
+};
+
+// How a full download pages through a table, for the table list
+const PAGER_LABELS: Record<PagerKind, string> = {
+  next: 'Next button',
+  numbered: 'numbered pages',
+  'load-more': 'Load more button',
+  picked: 'picked button',
+};
+
 // State for tracking full downloads
-let currentDownloadIndex: number | null = null;
+let currentDownloadIndex: DownloadTarget | null = null;
 let activeTabId: number | null = null;
+let activeTabUrl = '';
 let currentTicker = '';
+let detectedTicker = '';
+let detectedTickerSource: TickerSource = 'none';
+let currentTables: TableInfo[] = [];
+let currentOptions: CleanOptions = DEFAULT_CLEAN_OPTIONS;
+const corporateActionsByTable = new Map<DownloadTarget, CorporateActionOutput[]>();
 
 /**
- * Triggers a download of the CSV file
+ * Triggers a download of the CSV (or JSON) file
  */
-function downloadCSV(
-  csvData: string,
-  tableType: TableType,
-  ticker: string,
-  timeframe?: string
-): void {
-  const blob = new Blob([csvData], { type: 'text/csv;charset=utf-8;' });
+function downloadCSV(csvData: string, filename: string, format: ExportFormat = 'csv'): void {
+  const blob = new Blob([csvData], { type: `${getExportMimeType(format)};charset=utf-8;` });
   const url = URL.createObjectURL(blob);
   const link = document.createElement('a');
   link.href = url;
-
-  // Format: {TICKER}_{type}[_{timeframe}]_{YYYY-MM-DD}.csv
-  const dateStr = formatDateForFilename(new Date());
-  const typeStr = tableType === 'price' ? 'price' : 'dividend';
-  const timeframePart = timeframe ? `_${timeframe}` : '';
-  link.download = `${ticker}_${typeStr}${timeframePart}_${dateStr}.csv`;
+  link.download = filename;
 
   link.click();
   URL.revokeObjectURL(url);
 }
 
+/**
+ * Describes how far a download got: "page 7 of 42" while paging, else a percentage
+ */
+function describeProgress(update: ProgressUpdate): string {
+  const tablePart = update.tableCount ? `table ${update.table}/${update.tableCount} · ` : '';
+  if (update.status !== 'paging') return `${tablePart}${update.progress}%`;
+  return update.pageCount
+    ? `${tablePart}page ${update.page} of ${update.pageCount}`
+    : `${tablePart}page ${update.page}`;
+}
+
 /**
  * Updates progress UI for a specific table - progress integrated into button
  */
-function updateProgress(
-  index: number,
-  progress: number,
-  rowsCollected: number,
-  status: string
-): void {
+function updateProgress(index: DownloadTarget, update: ProgressUpdate): void {
+  const { progress, rowsCollected, status } = update;
   const downloadBtn = document.getElementById(`download-${index}`) as HTMLButtonElement;
   if (!downloadBtn) return;
 
   const progressFill = downloadBtn.querySelector('.progress-fill') as HTMLElement;
   const btnText = downloadBtn.querySelector('.btn-text') as HTMLElement;
+  const label = downloadBtn.dataset.label || 'Download';
 
-  if (status === 'scrolling') {
+  if (status === 'scrolling' || status === 'paging') {
     downloadBtn.classList.add('downloading');
     downloadBtn.disabled = true;
 
@@ -78,7 +166,7 @@ function updateProgress(
     }
 
     if (btnText) {
-      btnText.innerHTML = `${progress}%<span class="separator">|</span>${rowsCollected} rows<span class="separator">|</span><span class="cancel-action">Cancel</span>`;
+      btnText.innerHTML = `${describeProgress(update)}<span class="separator">|</span>${rowsCollected} rows<span class="separator">|</span><span class="cancel-action">Cancel</span>`;
     }
   } else if (status === 'complete') {
     downloadBtn.classList.remove('downloading');
@@ -89,7 +177,7 @@ function updateProgress(
     }
 
     if (btnText) {
-      btnText.textContent = 'Download';
+      btnText.textContent = label;
     }
   } else if (status === 'error' || status === 'cancelled') {
     downloadBtn.classList.remove('downloading');
@@ -101,23 +189,20 @@ function updateProgress(
 
     if (btnText) {
       btnText.textContent = status === 'cancelled' ? 'Cancelled' : 'Error';
-      // Reset to "Download" after delay
+      // Reset to the button label after delay
       setTimeout(() => {
-        if (btnText) btnText.textContent = 'Download';
+        if (btnText) btnText.textContent = label;
       }, BUTTON_RESET_DELAY_MS);
     }
   }
 }
 
 /**
- * Starts full download with scrolling
+ * Puts a download button into its downloading state
  */
-async function startFullDownload(index: number): Promise<void> {
-  if (!activeTabId) return;
-
+function showDownloadStarted(index: DownloadTarget): void {
   currentDownloadIndex = index;
 
-  // Update button to downloading state
   const downloadBtn = document.getElementById(`download-${index}`) as HTMLButtonElement;
   if (downloadBtn) {
     downloadBtn.classList.add('downloading');
@@ -127,13 +212,87 @@ async function startFullDownload(index: number): Promise<void> {
       btnText.innerHTML = `0%<span class="separator">|</span>0 rows<span class="separator">|</span><span class="cancel-action">Cancel</span>`;
     }
   }
+}
 
-  const message: StartFullDownloadMessage = {
-    action: 'startFullDownload',
-    tableIndex: index,
+/**
+ * Describes a detected table for a download job, from its download button
+ */
+function toJobTable(index: number | 'picked'): JobTable {
+  const downloadBtn = document.getElementById(`download-${index}`) as HTMLButtonElement;
+  const tableType: TableType = (downloadBtn?.dataset.type as TableType) || 'price';
+  return {
+    target: index,
+    tableType,
+    ticker: MULTI_SYMBOL_TYPES.has(tableType) ? '' : currentTicker,
+    timeframe: downloadBtn?.dataset.timeframe,
   };
+}
 
-  await chrome.tabs.sendMessage(activeTabId, message);
+/**
+ * Hands a full download to the background, which saves the file even if the popup
+ * closes (it does as soon as the page is clicked)
+ */
+async function startDownloadJob(
+  target: DownloadTarget,
+  tables: JobTable[],
+  mapping?: ManualMapping
+): Promise<void> {
+  if (!activeTabId) return;
+
+  const message: StartDownloadJobMessage = {
+    action: 'startDownloadJob',
+    job: {
+      tabId: activeTabId,
+      target,
+      tables,
+      ticker: currentTicker,
+      tickerSource: currentTicker !== detectedTicker ? 'edited' : detectedTickerSource,
+      pageUrl: activeTabUrl,
+      keyStatsFormat: currentOptions.keyStatsFormat,
+      options: currentOptions,
+      mapping,
+    },
+  };
+
+  showDownloadStarted(target);
+  const { error } = (await chrome.runtime.sendMessage(message)) as { error: string | null };
+  if (error) {
+    currentDownloadIndex = null;
+    showError(error);
+  }
+}
+
+/**
+ * Starts full download with scrolling
+ */
+async function startFullDownload(index: number): Promise<void> {
+  await startDownloadJob(index, [toJobTable(index)]);
+}
+
+/**
+ * Downloads every detected table one after another, bundled into one ZIP
+ */
+async function startBundleDownload(): Promise<void> {
+  await startDownloadJob(
+    'all',
+    currentTables.map((table) => toJobTable(table.index))
+  );
+}
+
+/**
+ * Shows the progress of a download still running in the active tab, started before
+ * the popup was last closed
+ */
+async function reattachDownloadJob(): Promise<void> {
+  if (!activeTabId) return;
+
+  const message: GetDownloadJobMessage = { action: 'getDownloadJob', tabId: activeTabId };
+  const job = (await chrome.runtime.sendMessage(message)) as DownloadJob | null;
+  if (!job) return;
+
+  log.debug('Reattaching to download job', { target: job.target });
+  showDownloadStarted(job.target);
+  if (job.progress) updateProgress(job.target, job.progress);
 }
 
 /**
@@ -210,30 +369,199 @@ function handleTickerInput(e: Event): void {
 }
 
 /**
- * Updates download button states based on ticker validity
+ * Updates download button states based on ticker validity.
+ * Tables listing many symbols don't need a ticker; a picked table also needs
+ * its required columns mapped.
  */
 function updateDownloadButtons(): void {
-  const buttons = document.querySelectorAll('.download-btn');
-  const valid = isValidTicker(currentTicker);
+  const buttons = document.querySelectorAll('.download-btn, .corporate-action-btn');
+  const tickerValid = isValidTicker(currentTicker);
 
   for (const btn of buttons) {
     const button = btn as HTMLButtonElement;
+    const valid = tickerValid || MULTI_SYMBOL_TYPES.has(button.dataset.type as TableType);
     // Don't interfere with buttons in downloading state
     if (!button.classList.contains('downloading')) {
-      button.disabled = !valid;
+      button.disabled = !valid || button.classList.contains('mapping-incomplete');
       button.classList.toggle('ticker-required', !valid);
     }
   }
 }
 
 /**
- * Removes the ticker section from DOM
+ * Renders the export options section below the ticker input.
+ * Statement layout and key statistics format are only shown for tables that use them.
+ */
+function renderOptionsSection(options: CleanOptions, tables: TableInfo[]): void {
+  document.getElementById('options-section')?.remove();
+
+  const content = document.getElementById('content');
+  if (!content) return;
+
+  const section = document.createElement('div');
+  section.id = 'options-section';
+  section.className = 'options-section';
+  const timezoneOptions = TIMEZONE_CHOICES.map(
+    ({ value, label }) =>
+      `<option value="${value}"${value === options.timezone ? ' selected' : ''}>${label}</option>`
+  ).join('');
+  const statementOption = tables.some((table) => table.type === 'statement')
+    ? `
+    <label class="option" title="Wide keeps periods as columns; long exports period, line_item, value rows">
+      Statements
+      <select id="statement-layout-select" class="option-select">
+        <option value="wide"${options.statementLayout === 'wide' ? ' selected' : ''}>Wide</option>
+        <option value="long"${options.statementLayout === 'long' ? ' selected' : ''}>Long</option>
+      </select>
+    </label>`
+    : '';
+  const keyStatsOption = tables.some((table) => table.type === 'keystats')
+    ? `
+    <label class="option" title="File format of the key statistics snapshot">
+      Key stats
+      <select id="keystats-format-select" class="option-select">
+        <option value="csv"${options.keyStatsFormat === 'csv' ? ' selected' : ''}>CSV</option>
+        <option value="json"${options.keyStatsFormat === 'json' ? ' selected' : ''}>JSON</option>
+      </select>
+    </label>`
+    : '';
+  section.innerHTML = `
+    <label class="option" title="Strip currency and thousands separators, convert (0.12), 1.2M and 12.5%">
+      <input type="checkbox" id="normalize-numbers"${options.normalizeNumbers ? ' checked' : ''}>
+      Normalize numbers
+    </label>
+    <label class="option" title="Timezone for intraday timestamps">
+      Timezone
+      <select id="timezone-select" class="option-select">${timezoneOptions}</select>
+    </label>${statementOption}${keyStatsOption}
+  `;
+
+  content.parentNode?.insertBefore(section, content);
+
+  const checkbox = document.getElementById('normalize-numbers') as HTMLInputElement;
+  checkbox?.addEventListener('change', () => {
+    updateOptions({ normalizeNumbers: checkbox.checked });
+  });
+
+  const timezoneSelect = document.getElementById('timezone-select') as HTMLSelectElement;
+  timezoneSelect?.addEventListener('change', () => {
+    updateOptions({ timezone: timezoneSelect.value });
+  });
+
+  const layoutSelect = document.getElementById('statement-layout-select') as HTMLSelectElement;
+  layoutSelect?.addEventListener('change', () => {
+    updateOptions({ statementLayout: layoutSelect.value as StatementLayout });
+  });
+
+  const formatSelect = document.getElementById('keystats-format-select') as HTMLSelectElement;
+  formatSelect?.addEventListener('change', () => {
+    updateOptions({ keyStatsFormat: formatSelect.value as ExportFormat });
+  });
+}
+
+/**
+ * Updates and persists the export options
+ */
+function updateOptions(changes: Partial<CleanOptions>): void {
+  currentOptions = { ...currentOptions, ...changes };
+  saveCleanOptions(currentOptions).catch((err) => log.error('Failed to save options', err));
+}
+
+/**
+ * Removes the ticker and options sections from DOM
  */
 function removeTickerSection(): void {
   const tickerSection = document.getElementById('ticker-section');
   if (tickerSection) {
     tickerSection.remove();
   }
+  document.getElementById('options-section')?.remove();
+}
+
+/**
+ * Renders date notes for a table (ambiguous day/month order, timezone, unreadable dates)
+ */
+function renderDateWarnings(table: TableInfo): string {
+  const warnings: string[] = [];
+  if (table.dateOrder && table.dateOrderAmbiguous) {
+    const order = table.dateOrder === 'DMY' ? 'DD/MM' : 'MM/DD';
+    warnings.push(`Dates read as ${order} (ambiguous)`);
+  }
+  if (table.timezone) {
+    warnings.push(`Times in ${table.timezone}`);
+  }
+  if (table.invalidDates) {
+    warnings.push(`${table.invalidDates} row(s) with unreadable dates`);
+  }
+  return warnings.map((warning) => `<div class="table-warning">${warning}</div>`).join('');
+}
+
+/**
+ * Notes that a table was mapped by a saved site profile rather than detected
+ */
+function renderProfileNote(table: TableInfo): string {
+  return table.profile
+    ? `<div class="table-meta">Mapped by site profile ${escapeHtml(table.profile)}</div>`
+    : '';
+}
+
+/**
+ * Notes how a full download pages through a table, or offers to pick the
+ * next-page button when no pager was found
+ */
+function renderPagerNote(table: TableInfo): string {
+  if (table.pager) {
+    return `<div class="table-meta">Pages through the table (${PAGER_LABELS[table.pager]})</div>`;
+  }
+  if (table.type === 'keystats') return '';
+  return `<button class="link-btn pick-pager" data-index="${table.index}">Pages with a Next button? Pick it</button>`;
+}
+
+/**
+ * Renders download buttons for the dividend/split rows found in a price table.
+ * Re-rendered when a full download brings back the complete set.
+ */
+function renderCorporateActions(index: DownloadTarget): void {
+  const container = document.getElementById(`corporate-actions-${index}`);
+  if (!container) return;
+
+  const outputs = corporateActionsByTable.get(index) || [];
+  container.innerHTML = outputs
+    .map(
+      (output) =>
+        `<button class="corporate-action-btn" data-action-type="${output.type}">${CORPORATE_ACTION_LABELS[output.type]} (${output.rows})</button>`
+    )
+    .join('');
+
+  for (const button of Array.from(container.querySelectorAll('.corporate-action-btn'))) {
+    button.addEventListener('click', () => {
+      const type = (button as HTMLButtonElement).dataset.actionType;
+      const output = outputs.find((o) => o.type === type);
+      if (output) {
+        downloadCSV(output.csvData, buildCorporateActionFilename(output.type, currentTicker));
+      }
+    });
+  }
+}
+
+/**
+ * Notes the rows whose values changed while a full download read the table;
+ * the tooltip shows the first few, with the value read first and the one kept
+ */
+function renderRowConflicts(index: DownloadTarget, conflicts: RowConflict[]): void {
+  const container = document.getElementById(`row-conflicts-${index}`);
+  if (!container) return;
+
+  const examples = conflicts
+    .slice(0, CONFLICT_EXAMPLES)
+    .map(
+      ({ key, occurrence, previous, current }) =>
+        `${key}${occurrence > 1 ? ` (#${occurrence})` : ''}: ${previous.join(', ')} → ${current.join(', ')}`
+    )
+    .join('\n');
+  container.innerHTML = conflicts.length
+    ? `<div class="table-warning" title="${escapeHtml(examples)}">${conflicts.length} row(s) changed during download, last values kept</div>`
+    : '';
 }
 
 /**
@@ -249,15 +577,19 @@ function renderTables(tables: TablesResponse['tables']): void {
     removeTickerSection();
     content.innerHTML = `
       <div class="status empty">
-        No price or dividend tables found on this page.
+        No supported tables found on this page.
+        <button class="link-btn" id="open-options">Headers not in English? Add column synonyms</button>
       </div>
     `;
+    document.getElementById('open-options')?.addEventListener('click', () => {
+      chrome.runtime.openOptionsPage();
+    });
     return;
   }
 
   const tableListHTML = tables
     .map((table) => {
-      const typeLabel = table.type === 'price' ? 'Price' : 'Dividend';
+      const typeLabel = TABLE_TYPE_LABELS[table.type];
       const timeframeAttr = table.timeframe ? ` data-timeframe="${table.timeframe}"` : '';
       return `
     <div class="table-item" data-type="${table.type}">
@@ -266,7 +598,9 @@ function renderTables(tables: TablesResponse['tables']): void {
           <span class="table-name">Table ${table.index + 1}</span>
           <span class="table-type-badge ${table.type}">${typeLabel}</span>
         </div>
-        <div class="table-meta">${table.rows} rows × ${table.columns} cols</div>
+        <div class="table-meta">${table.rows} rows × ${table.columns} cols</div>${renderDateWarnings(table)}${renderProfileNote(table)}${renderPagerNote(table)}
+        <div class="corporate-actions" id="corporate-actions-${table.index}"></div>
+        <div id="row-conflicts-${table.index}"></div>
       </div>
       <button class="download-btn" id="download-${table.index}" data-index="${table.index}" data-type="${table.type}"${timeframeAttr}>
         <div class="progress-fill"></div>
@@ -277,17 +611,39 @@ function renderTables(tables: TablesResponse['tables']): void {
     })
     .join('');
 
+  // The bundle needs a ticker unless every table lists many symbols
+  const bundleType = (tables.find((table) => !MULTI_SYMBOL_TYPES.has(table.type)) ?? tables[0])
+    ?.type;
+  const downloadAllHTML =
+    tables.length > 1
+      ? `
+    <button class="download-btn download-all" id="download-all" data-index="all" data-type="${bundleType}" data-label="Download all as ZIP">
+      <div class="progress-fill"></div>
+      <span class="btn-text">Download all as ZIP</span>
+    </button>
+  `
+      : '';
+
   content.innerHTML = `
     <div class="table-list">
       ${tableListHTML}
     </div>
+    ${downloadAllHTML}
   `;
 
+  // Dividend/split rows split out of price tables
+  corporateActionsByTable.clear();
+  for (const table of tables) {
+    if (table.corporateActions) {
+      corporateActionsByTable.set(table.index, table.corporateActions);
+      renderCorporateActions(table.index);
+    }
+  }
+
   // Attach click handlers to download buttons
   for (const button of Array.from(content.querySelectorAll('.download-btn'))) {
     button.addEventListener('click', (e) => {
       const btn = button as HTMLButtonElement;
-      const index = Number.parseInt(btn.dataset.index || '0');
 
       // Check if we're in downloading state (cancel action)
       if (btn.classList.contains('downloading')) {
@@ -299,7 +655,17 @@ function renderTables(tables: TablesResponse['tables']): void {
         return;
       }
 
-      startFullDownload(index);
+      if (btn.dataset.index === 'all') {
+        startBundleDownload();
+      } else {
+        startFullDownload(Number.parseInt(btn.dataset.index || '0'));
+      }
+    });
+  }
+
+  for (const button of Array.from(content.querySelectorAll<HTMLElement>('.pick-pager'))) {
+    button.addEventListener('click', () => {
+      startPagerPicker(Number.parseInt(button.dataset.index || '0'));
     });
   }
 
@@ -307,6 +673,401 @@ function renderTables(tables: TablesResponse['tables']): void {
   updateDownloadButtons();
 }
 
+// ============================================================================
+// Detection Diagnostics
+// Lists every table and grid on the page with why it was detected or rejected
+// ============================================================================
+
+/**
+ * Escapes page text (header names) for use in innerHTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Renders one diagnosed table: type or rejection, confidence, reason and column matches
+ */
+function renderDiagnosis(diagnosis: TableDiagnosis): string {
+  const badge = diagnosis.type
+    ? `<span class="table-type-badge ${diagnosis.type}">${TABLE_TYPE_LABELS[diagnosis.type]}</span>`
+    : '<span class="table-type-badge rejected">Rejected</span>';
+  const confidence = `${Math.round(diagnosis.confidence * 100)}%`;
+
+  const details: string[] = [];
+  if (diagnosis.headerRows > 0) {
+    const rowLabel = diagnosis.headerRows > 1 ? `rows 1-${diagnosis.headerRows}` : 'row 1';
+    const headers = diagnosis.headers.filter((header) => header.trim() !== '');
+    details.push(`Header (${rowLabel}): ${headers.map(escapeHtml).join(' | ')}`);
+  }
+  const matched = Object.entries(diagnosis.matched);
+  if (matched.length > 0) {
+    const pairs = matched.map(([name, header]) => `${name} ← ${escapeHtml(header)}`);
+    details.push(`Matched: ${pairs.join(', ')}`);
+  }
+  if (diagnosis.missing.length > 0) {
+    details.push(`Missing: ${diagnosis.missing.join(', ')}`);
+  }
+
+  return `
+    <div class="diagnosis-item${diagnosis.type ? '' : ' rejected'}">
+      <div class="table-header">
+        <span class="table-name">#${diagnosis.index + 1} ${escapeHtml(diagnosis.element)}</span>
+        ${badge}
+        <span class="diagnosis-confidence">${confidence}</span>
+      </div>
+      <div class="table-meta">${diagnosis.rows} rows · ${escapeHtml(diagnosis.reason)}</div>
+      ${details.map((detail) => `<div class="diagnosis-detail">${detail}</div>`).join('')}
+    </div>
+  `;
+}
+
+/**
+ * Copies a plain JSON report of the diagnostics, for filing site-support issues
+ */
+async function copyDiagnosticsReport(tables: TableDiagnosis[]): Promise<void> {
+  const report = {
+    url: activeTabUrl,
+    version: chrome.runtime.getManifest().version,
+    capturedAt: new Date().toISOString(),
+    tables,
+  };
+  const button = document.getElementById('copy-diagnostics');
+  try {
+    await navigator.clipboard.writeText(JSON.stringify(report, null, 2));
+    if (button) button.textContent = 'Copied';
+  } catch (err) {
+    log.error('Failed to copy diagnostics', err);
+    if (button) button.textContent = 'Copy failed';
+  }
+  setTimeout(() => {
+    if (button) button.textContent = 'Copy report';
+  }, BUTTON_RESET_DELAY_MS);
+}
+
+/**
+ * Shows or hides the diagnostics list, fetching fresh results when shown
+ */
+async function toggleDiagnostics(): Promise<void> {
+  const container = document.getElementById('diagnostics');
+  if (!container || !activeTabId) return;
+
+  if (container.innerHTML.trim() !== '') {
+    container.innerHTML = '';
+    return;
+  }
+
+  try {
+    const message: GetDiagnosticsMessage = { action: 'getDiagnostics' };
+    const response = (await chrome.tabs.sendMessage(activeTabId, message)) as DiagnosticsResponse;
+    const { tables } = response;
+    const list =
+      tables.length > 0
+        ? tables.map(renderDiagnosis).join('')
+        : '<div class="table-meta">No tables or grids found.</div>';
+
+    container.innerHTML = `
+      <div class="diagnostics-header">
+        <span>${tables.length} table(s) on this page</span>
+        <button class="link-btn" id="copy-diagnostics">Copy report</button>
+      </div>
+      <div class="diagnostics-list">
+        ${list}
+      </div>
+    `;
+    document.getElementById('copy-diagnostics')?.addEventListener('click', () => {
+      copyDiagnosticsReport(tables);
+    });
+  } catch (err) {
+    log.error('Error fetching diagnostics', err);
+    container.innerHTML = '<div class="status error">Unable to read tables on this page.</div>';
+  }
+}
+
+// ============================================================================
+// Manual Column Mapping
+// Maps the columns of a table picked on the page, for tables detection rejected
+// ============================================================================
+
+let manualMapping: ManualMapping = { type: 'price', headerRows: 1, columns: {}, dateOrder: null };
+let pageTicker = '';
+let rememberProfile = true;
+let profilePattern = '';
+
+/**
+ * Starts the picker on the page. The popup closes so the page can be clicked;
+ * reopening it shows the mapping screen for the picked table.
+ */
+async function startPicker(): Promise<void> {
+  if (!activeTabId) return;
+
+  const message: StartPickerMessage = { action: 'startPicker' };
+  try {
+    await chrome.tabs.sendMessage(activeTabId, message);
+    window.close();
+  } catch (err) {
+    log.error('Error starting picker', err);
+    showError('Unable to pick tables on this page.');
+  }
+}
+
+/**
+ * Starts picking the next-page button of a table on the page. The popup closes so
+ * the page can be clicked; the next full download of the table pages with it.
+ */
+async function startPagerPicker(index: number): Promise<void> {
+  if (!activeTabId) return;
+
+  const message: StartPagerPickerMessage = { action: 'startPagerPicker', tableIndex: index };
+  try {
+    await chrome.tabs.sendMessage(activeTabId, message);
+    window.close();
+  } catch (err) {
+    log.error('Error starting pager picker', err);
+    showError('Unable to pick buttons on this page.');
+  }
+}
+
+/**
+ * Forgets the picked table and goes back to the detected tables
+ */
+async function cancelMapping(): Promise<void> {
+  corporateActionsByTable.delete('picked');
+  if (activeTabId) {
+    const message: ClearPickedTableMessage = { action: 'clearPickedTable' };
+    await chrome.tabs.sendMessage(activeTabId, message);
+  }
+  removeTickerSection();
+  fetchTables();
+}
+
+/**
+ * Assigns a source column to a standard column, or to extras (empty name).
+ * A standard column holds one source column, so it is taken from any other.
+ */
+function assignColumn(column: number, name: string): void {
+  const columns: Record<string, number> = {};
+  for (const [field, index] of Object.entries(manualMapping.columns)) {
+    if (field !== name && index !== column) columns[field] = index;
+  }
+  if (name) columns[name] = column;
+  manualMapping = { ...manualMapping, columns };
+}
+
+/**
+ * Renders the mapping screen: table type, header rows, and a standard column
+ * (or extras) for each source column with a sample value
+ */
+function renderMappingScreen(table: PickedTable): void {
+  const content = document.getElementById('content');
+  if (!content) return;
+
+  const { type, headerRows, columns, dateOrder } = manualMapping;
+  const { columns: fields, required } = MANUAL_MAPPING_FIELDS[type];
+  const names = table.headers[headerRows] || [];
+  const sample = table.preview[headerRows] || [];
+  const missing = required.filter((name) => columns[name] === undefined);
+
+  const typeOptions = (Object.keys(MANUAL_TYPE_LABELS) as ManualTableType[])
+    .map(
+      (value) =>
+        `<option value="${value}"${value === type ? ' selected' : ''}>${MANUAL_TYPE_LABELS[value]}</option>`
+    )
+    .join('');
+  const dateOrderOptions = (Object.keys(DATE_ORDER_LABELS) as (DateOrder | '')[])
+    .map(
+      (value) =>
+        `<option value="${value}"${value === (dateOrder ?? '') ? ' selected' : ''}>${DATE_ORDER_LABELS[value]}</option>`
+    )
+    .join('');
+  const headerRowOptions = table.headers
+    .map((_, n) => `<option value="${n}"${n === headerRows ? ' selected' : ''}>${n}</option>`)
+    .join('');
+  const columnRows = names
+    .map((name, i) => {
+      const fieldOptions = fields
+        .map(
+          (field) =>
+            `<option value="${field}"${columns[field] === i ? ' selected' : ''}>${field}</option>`
+        )
+        .join('');
+      return `
+      <div class="mapping-row">
+        <div class="mapping-source">
+          <span class="mapping-header">${escapeHtml(name || `Column ${i + 1}`)}</span>
+          <span class="mapping-sample">${escapeHtml(sample[i] || '')}</span>
+        </div>
+        <select class="option-select mapping-select" data-column="${i}">
+          <option value="">extras</option>${fieldOptions}
+        </select>
+      </div>`;
+    })
+    .join('');
+  const missingNote =
+    missing.length > 0
+      ? `<div class="table-warning">Map a column to: ${missing.join(', ')}</div>`
+      : '';
+
+  content.innerHTML = `
+    <div class="mapping-screen">
+      <div class="table-header">
+        <span class="table-name">Picked ${escapeHtml(table.element)}</span>
+        <span class="table-type-badge ${type}">${MANUAL_TYPE_LABELS[type]}</span>
+      </div>
+      <div class="table-meta">${table.rows} rows × ${names.length} cols</div>
+      <div class="mapping-options">
+        <label class="option">
+          Type
+          <select id="mapping-type" class="option-select">${typeOptions}</select>
+        </label>
+        <label class="option" title="Rows at the top that name the columns">
+          Header rows
+          <select id="mapping-header-rows" class="option-select">${headerRowOptions}</select>
+        </label>
+        <label class="option" title="Day/month order of dates like 03/04/2024">
+          Dates
+          <select id="mapping-date-order" class="option-select">${dateOrderOptions}</select>
+        </label>
+      </div>
+      <div class="mapping-list">${columnRows}
+      </div>${missingNote}
+      <label class="option" title="Apply this mapping (and an edited ticker) on later visits">
+        <input type="checkbox" id="remember-profile"${rememberProfile ? ' checked' : ''}>
+        Remember for pages matching
+      </label>
+      <input type="text" id="profile-pattern" class="profile-pattern" value="${escapeHtml(profilePattern)}" placeholder="every page on this site" spellcheck="false">
+      <div class="corporate-actions" id="corporate-actions-picked"></div>
+      <div id="row-conflicts-picked"></div>
+      <div class="mapping-actions">
+        <button class="link-btn" id="mapping-cancel">Cancel</button>
+        <button class="download-btn${missing.length > 0 ? ' mapping-incomplete' : ''}" id="download-picked" data-type="${type}">
+          <div class="progress-fill"></div>
+          <span class="btn-text">Download</span>
+        </button>
+      </div>
+    </div>
+  `;
+
+  const typeSelect = document.getElementById('mapping-type') as HTMLSelectElement;
+  typeSelect?.addEventListener('change', () => {
+    // Standard columns differ per type, so start the assignment over
+    manualMapping = { ...manualMapping, type: typeSelect.value as ManualTableType, columns: {} };
+    renderMappingScreen(table);
+  });
+
+  const headerRowsSelect = document.getElementById('mapping-header-rows') as HTMLSelectElement;
+  headerRowsSelect?.addEventListener('change', () => {
+    manualMapping = { ...manualMapping, headerRows: Number(headerRowsSelect.value) };
+    renderMappingScreen(table);
+  });
+
+  const dateOrderSelect = document.getElementById('mapping-date-order') as HTMLSelectElement;
+  dateOrderSelect?.addEventListener('change', () => {
+    const value = dateOrderSelect.value as DateOrder | '';
+    manualMapping = { ...manualMapping, dateOrder: value || null };
+  });
+
+  const rememberCheckbox = document.getElementById('remember-profile') as HTMLInputElement;
+  rememberCheckbox?.addEventListener('change', () => {
+    rememberProfile = rememberCheckbox.checked;
+  });
+
+  const patternInput = document.getElementById('profile-pattern') as HTMLInputElement;
+  patternInput?.addEventListener('input', () => {
+    profilePattern = patternInput.value.trim();
+  });
+
+  for (const select of Array.from(content.querySelectorAll('.mapping-select'))) {
+    select.addEventListener('change', () => {
+      const { value, dataset } = select as HTMLSelectElement;
+      assignColumn(Number(dataset.column), value);
+      renderMappingScreen(table);
+    });
+  }
+
+  document.getElementById('mapping-cancel')?.addEventListener('click', () => {
+    cancelMapping();
+  });
+
+  const downloadBtn = document.getElementById('download-picked') as HTMLButtonElement;
+  downloadBtn?.addEventListener('click', (e) => {
+    if (downloadBtn.classList.contains('downloading')) {
+      if ((e.target as HTMLElement).classList.contains('cancel-action')) {
+        cancelDownload();
+      }
+      return;
+    }
+    if (rememberProfile) {
+      saveProfile(table);
+    }
+    startManualDownload();
+  });
+
+  renderCorporateActions('picked');
+  updateDownloadButtons();
+}
+
+/**
+ * Saves the mapping as a site profile for pages matching the URL pattern.
+ * The ticker is saved as an override only if it was changed from the page's.
+ */
+async function saveProfile(table: PickedTable): Promise<void> {
+  let hostname: string;
+  try {
+    hostname = new URL(activeTabUrl).hostname;
+  } catch {
+    return;
+  }
+
+  const profile: SiteProfile = {
+    hostname,
+    urlPattern: profilePattern,
+    selector: table.selector,
+    mapping: manualMapping,
+    ticker: currentTicker !== pageTicker ? currentTicker : '',
+  };
+  try {
+    await saveSiteProfiles(mergeProfiles(await loadSiteProfiles(), [profile]));
+    log.info('Site profile saved', { hostname, urlPattern: profilePattern });
+  } catch (err) {
+    log.error('Failed to save site profile', err);
+  }
+}
+
+/**
+ * Restores the mapping screen's choices for a picked table: from a saved profile
+ * selecting the same table, or defaults for the current page
+ */
+async function restoreMapping(table: PickedTable): Promise<void> {
+  const saved = findSiteProfiles(await loadSiteProfiles(), activeTabUrl).find(
+    (profile) => profile.selector === table.selector
+  );
+  if (saved) {
+    manualMapping = saved.mapping;
+    profilePattern = saved.urlPattern;
+    return;
+  }
+
+  // Header rows default to one, unless the table has nothing below its first row
+  manualMapping = { ...manualMapping, headerRows: Math.min(1, table.headers.length - 1) };
+  try {
+    profilePattern = new URL(activeTabUrl).pathname;
+  } catch {
+    profilePattern = '';
+  }
+}
+
+/**
+ * Starts full download of the picked table with the chosen mapping
+ */
+async function startManualDownload(): Promise<void> {
+  await startDownloadJob('picked', [toJobTable('picked')], manualMapping);
+}
+
 /**
  * Shows an error message
  */
@@ -332,23 +1093,47 @@ async function fetchTables(): Promise<void> {
     }
 
     activeTabId = tab.id;
+    activeTabUrl = tab.url || '';
+    currentTables = [];
+
+    currentOptions = await loadCleanOptions();
 
     log.debug('Sending getTables message', { tabId: tab.id });
-    const message: GetTablesMessage = { action: 'getTables' };
+    const message: GetTablesMessage = { action: 'getTables', options: currentOptions };
     const response = (await chrome.tabs.sendMessage(tab.id, message)) as TablesResponse;
     log.debug('Received response', {
       tableCount: response.tables.length,
       ticker: response.ticker,
       tickerSource: response.tickerSource,
     });
+    detectedTicker = response.ticker;
+    detectedTickerSource = response.tickerSource;
 
-    // Only show ticker section if tables were found
+    // A table picked on the page is mapped by hand, ahead of the detected ones
+    const pickedMessage: GetPickedTableMessage = { action: 'getPickedTable' };
+    const picked = (await chrome.tabs.sendMessage(tab.id, pickedMessage)) as PickedTableResponse;
+    if (picked.table) {
+      await restoreMapping(picked.table);
+      pageTicker = response.ticker || picked.ticker;
+      detectedTicker = pageTicker;
+      currentTicker = pageTicker;
+      renderTickerSection(currentTicker);
+      renderOptionsSection(currentOptions, []);
+      renderMappingScreen(picked.table);
+      await reattachDownloadJob();
+      return;
+    }
+
+    // Only show ticker and options sections if tables were found
     if (response.tables.length > 0) {
       currentTicker = response.ticker;
       renderTickerSection(response.ticker);
+      renderOptionsSection(currentOptions, response.tables);
     }
 
+    currentTables = response.tables;
     renderTables(response.tables);
+    await reattachDownloadJob();
   } catch (err) {
     log.error('Error fetching tables', err);
     showError('No supported tables found.');
@@ -356,28 +1141,33 @@ async function fetchTables(): Promise<void> {
 }
 
 /**
- * Listen for progress updates from content script
+ * Listen for progress of the active tab's download job (the background saves the file)
  */
-chrome.runtime.onMessage.addListener((message: ProgressUpdate) => {
-  if (message.action === 'downloadProgress') {
-    log.debug('Received progress update', { progress: message.progress, status: message.status });
+chrome.runtime.onMessage.addListener((message: JobProgressMessage) => {
+  if (message.action === 'jobProgress' && message.tabId === activeTabId) {
+    const { progress } = message;
+    log.debug('Received progress update', {
+      progress: progress.progress,
+      status: progress.status,
+    });
 
     if (currentDownloadIndex !== null) {
-      updateProgress(currentDownloadIndex, message.progress, message.rowsCollected, message.status);
-
-      if (message.status === 'complete' && message.csvData) {
-        // Get the table type and timeframe from the download button's data attributes
-        const downloadBtn = document.getElementById(
-          `download-${currentDownloadIndex}`
-        ) as HTMLButtonElement;
-        const tableType: TableType = (downloadBtn?.dataset.type as TableType) || 'price';
-        const timeframe = downloadBtn?.dataset.timeframe;
-        downloadCSV(message.csvData, tableType, currentTicker, timeframe);
+      updateProgress(currentDownloadIndex, progress);
+
+      if (progress.status === 'complete') {
+        renderRowConflicts(currentDownloadIndex, progress.conflicts ?? []);
+
+        // The full download saw every row, so refresh the dividend/split buttons
+        if (progress.corporateActions?.length) {
+          corporateActionsByTable.set(currentDownloadIndex, progress.corporateActions);
+          renderCorporateActions(currentDownloadIndex);
+          updateDownloadButtons();
+        }
         currentDownloadIndex = null;
-      } else if (message.status === 'error') {
-        showError(message.error || 'An error occurred during download');
+      } else if (progress.status === 'error') {
+        showError(progress.error || 'An error occurred during download');
         currentDownloadIndex = null;
-      } else if (message.status === 'cancelled') {
+      } else if (progress.status === 'cancelled') {
         currentDownloadIndex = null;
       }
     }
@@ -385,4 +1175,10 @@ chrome.runtime.onMessage.addListener((message: ProgressUpdate) => {
 });
 
 // Initialize popup
+document.getElementById('picker-btn')?.addEventListener('click', () => {
+  startPicker();
+});
+document.getElementById('diagnostics-btn')?.addEventListener('click', () => {
+  toggleDiagnostics();
+});
 fetchTables();
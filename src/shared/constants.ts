@@ -3,16 +3,22 @@
  * Replaces magic numbers with descriptive names
  */
 
+import type { ManualTableType } from './types';
+
 // === Scroll Configuration ===
+// Defaults of the scroll settings, which the options page can change globally or per domain
 
 // Percentage of viewport to scroll per iteration (0.8 = 80%)
 export const SCROLL_VIEWPORT_RATIO = 0.8;
 
-// Milliseconds to wait after each scroll for content to load
-export const SCROLL_DELAY_MS = 300;
+// Milliseconds without row changes (and no loading spinner) after which a table counts as loaded
+export const SETTLE_QUIET_MS = 200;
+
+// Maximum milliseconds to wait after each scroll for rows to settle
+export const MAX_SCROLL_WAIT_MS = 3000;
 
-// Milliseconds to wait for final content after reaching bottom
-export const FINAL_CONTENT_DELAY_MS = 500;
+// Maximum milliseconds to wait for more rows after reaching bottom
+export const MAX_FINAL_WAIT_MS = 2000;
 
 // Progress cap during scrolling (reaches 100 only on complete)
 export const SCROLL_PROGRESS_CAP = 95;
@@ -28,6 +34,12 @@ export const MAX_SCROLL_ATTEMPTS = 200;
 // Number of consecutive attempts with no new rows before stopping
 export const MAX_NO_NEW_ROWS_ATTEMPTS = 5;
 
+// Milliseconds to wait for a table to re-render after a pager click
+export const PAGE_LOAD_TIMEOUT_MS = 10000;
+
+// Milliseconds between checks for the re-rendered table
+export const PAGE_POLL_INTERVAL_MS = 100;
+
 // === UI Timing ===
 
 // Milliseconds to show error/cancelled state before button reset
@@ -36,6 +48,33 @@ export const BUTTON_RESET_DELAY_MS = 2000;
 // Milliseconds to wait for document.body in observer setup
 export const OBSERVER_RETRY_DELAY_MS = 100;
 
+// Milliseconds after a page change before tables are detected again (scrolling a
+// lazy-loaded table changes the page many times a second)
+export const DETECTION_DEBOUNCE_MS = 300;
+
+// Milliseconds to show the "table picked" notice on the page
+export const PICKER_NOTICE_MS = 4000;
+
+// === Manual Column Mapping ===
+
+// Rows below the header read from a picked table, for sample values on the mapping screen
+export const PICKED_PREVIEW_ROWS = 6;
+
+// Standard columns a picked table can be mapped to (in output order) and the ones it needs
+export const MANUAL_MAPPING_FIELDS: Record<
+  ManualTableType,
+  { columns: string[]; required: string[] }
+> = {
+  price: {
+    columns: ['date', 'open', 'high', 'low', 'close', 'adj_close', 'volume'],
+    required: ['date', 'close'],
+  },
+  dividend: {
+    columns: ['ex_date', 'amount', 'indicator', 'announcement_date', 'payment_date', 'description'],
+    required: ['ex_date', 'amount'],
+  },
+};
+
 // === Badge Colors ===
 
 // Badge background color when tables are found
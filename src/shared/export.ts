@@ -0,0 +1,116 @@
+/**
+ * Export files for NumNom Chrome extension
+ * File names and formats shared by the popup and the background download jobs
+ */
+
+import Papa from 'papaparse';
+import type { CorporateActionType, DownloadJob, ExportFormat, TableType } from './types';
+import { formatDateForFilename } from './utils';
+
+/**
+ * Builds the file name of a download.
+ * Format: [{TICKER}_]{type}[_{timeframe}]_{YYYY-MM-DD}.{csv|json}
+ * An empty ticker (tables listing many symbols) is left out.
+ */
+export function buildDownloadFilename(
+  tableType: TableType | CorporateActionType,
+  ticker: string,
+  timeframe?: string,
+  format: ExportFormat = 'csv'
+): string {
+  const dateStr = formatDateForFilename(new Date());
+  const tickerPart = ticker ? `${ticker}_` : '';
+  const timeframePart = timeframe ? `_${timeframe}` : '';
+  return `${tickerPart}${tableType}${timeframePart}_${dateStr}.${format}`;
+}
+
+/**
+ * Builds the file name of the dividend or split rows split out of a price table, told
+ * apart from the file of a dividend or split table of the same ticker.
+ * Format: [{TICKER}_]{dividend|split}_from_price_{YYYY-MM-DD}.csv
+ */
+export function buildCorporateActionFilename(type: CorporateActionType, ticker: string): string {
+  const tickerPart = ticker ? `${ticker}_` : '';
+  return `${tickerPart}${type}_from_price_${formatDateForFilename(new Date())}.csv`;
+}
+
+/**
+ * Builds the file name of a ZIP bundle of a page's tables.
+ * Format: [{TICKER}_]tables_{YYYY-MM-DD}.zip
+ */
+export function buildBundleFilename(ticker: string): string {
+  const tickerPart = ticker ? `${ticker}_` : '';
+  return `${tickerPart}tables_${formatDateForFilename(new Date())}.zip`;
+}
+
+/**
+ * Makes a file name unique among those already taken, e.g. two price tables without
+ * a timeframe: "AAPL_price_2024-01-15.csv", then "AAPL_price_2024-01-15_2.csv"
+ */
+export function getUniqueFilename(filename: string, taken: string[]): string {
+  const dot = filename.lastIndexOf('.');
+  let unique = filename;
+  for (let n = 2; taken.includes(unique); n++) {
+    unique = `${filename.slice(0, dot)}_${n}${filename.slice(dot)}`;
+  }
+  return unique;
+}
+
+/** A table of a ZIP bundle, as listed in its manifest */
+export interface BundleTable {
+  file: string | null; // null when the table's download failed
+  table: number | null; // number shown in the popup ("Table 2"), null for the picked table
+  type: TableType | CorporateActionType;
+  timeframe: string | null;
+  rows: number; // data rows, without the header
+  changedRows: number; // rows whose values changed while the table was read
+  error: string | null;
+}
+
+/**
+ * Formats the manifest of a ZIP bundle: where the tables came from and what each file holds
+ */
+export function formatBundleManifest(
+  job: Pick<DownloadJob, 'ticker' | 'tickerSource' | 'pageUrl'>,
+  tables: BundleTable[]
+): string {
+  const manifest = {
+    ticker: job.ticker,
+    ticker_source: job.tickerSource,
+    page_url: job.pageUrl,
+    created_at: new Date().toISOString(),
+    tables: tables.map((table) => ({
+      file: table.file,
+      table: table.table,
+      type: table.type,
+      timeframe: table.timeframe,
+      rows: table.rows,
+      changed_rows: table.changedRows,
+      error: table.error,
+    })),
+  };
+  return JSON.stringify(manifest, null, 2);
+}
+
+/**
+ * Gets the MIME type of an export format
+ */
+export function getExportMimeType(format: ExportFormat): string {
+  return format === 'json' ? 'application/json' : 'text/csv';
+}
+
+/**
+ * Formats a key statistics record stamped with the ticker and capture time,
+ * as a single-row CSV or a JSON object
+ */
+export function formatKeyStats(csvData: string, ticker: string, format: ExportFormat): string {
+  const [fields = [], values = []] = Papa.parse<string[]>(csvData).data;
+  const record: Record<string, string> = { ticker, captured_at: new Date().toISOString() };
+  fields.forEach((field, i) => {
+    record[field] = values[i] || '';
+  });
+
+  return format === 'json'
+    ? JSON.stringify(record, null, 2)
+    : Papa.unparse([Object.keys(record), Object.values(record)], { quotes: true });
+}
@@ -4,7 +4,7 @@
  */
 
 export type LogLevel = 'silent' | 'error' | 'warn' | 'info' | 'debug';
-export type LogContext = 'content' | 'popup' | 'background';
+export type LogContext = 'content' | 'popup' | 'background' | 'offscreen' | 'options';
 
 const LEVELS = { silent: -1, error: 0, warn: 1, info: 2, debug: 3 } as const;
 
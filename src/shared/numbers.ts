@@ -0,0 +1,188 @@
+/**
+ * Numeric normalization for NumNom Chrome extension
+ * Converts display strings like "$1,234.50", "(0.12)", "1.2M" or "12.5%" to plain numbers
+ */
+
+export type DecimalSeparator = '.' | ',';
+
+/** Placeholders sites use for "no value" */
+const EMPTY_VALUES = new Set(['-', '--', '—', '–', 'n/a', 'na', 'nil', 'none']);
+
+/** Multipliers for magnitude suffixes, as powers of ten */
+const SUFFIX_EXPONENTS: Record<string, number> = {
+  k: 3,
+  m: 6,
+  mn: 6,
+  mm: 6,
+  b: 9,
+  bn: 9,
+  t: 12,
+};
+
+/**
+ * Splits a cell into prefix, numeric core and suffix.
+ * Core allows digits with ".", ",", apostrophe and (thin/no-break) space separators.
+ */
+const NUMBER_PATTERN = /^([^\d]*?)(\d(?:[\d.,'\u00a0\u202f ]*\d)?)\s*([^\d]*)$/;
+
+/** Currency symbols, 3-letter codes and a few common local prefixes (RM, S$, HK$) */
+const CURRENCY_PATTERN = /[$€£¥₹₩₽¢]|\b[A-Z]{3}\b|\b(?:RM|Rp|Rs|S|HK|A|C|NZ|US)(?=\$|\b)/g;
+
+/**
+ * Returns the magnitude exponent and sign encoded in a prefix/suffix, or null
+ * if it holds anything other than a sign, currency, percent or K/M/B/T.
+ */
+function parseAffix(affix: string): { exponent: number; negative: boolean } | null {
+  let rest = affix.replace(CURRENCY_PATTERN, '').replace(/\s+/g, '');
+  let negative = false;
+
+  if (rest.includes('-')) {
+    negative = true;
+    rest = rest.replace('-', '');
+  }
+  rest = rest.replace('+', '').replace('%', '');
+
+  if (rest === '') return { exponent: 0, negative };
+  const exponent = SUFFIX_EXPONENTS[rest.toLowerCase()];
+  return exponent !== undefined ? { exponent, negative } : null;
+}
+
+/**
+ * Reads which separator a single value uses as its decimal point.
+ * Returns null when the value is ambiguous (e.g. "1,234" or "1.234").
+ */
+function detectDecimalSeparator(core: string): DecimalSeparator | null {
+  const lastDot = core.lastIndexOf('.');
+  const lastComma = core.lastIndexOf(',');
+
+  // Both present: whichever comes last is the decimal point
+  if (lastDot !== -1 && lastComma !== -1) return lastDot > lastComma ? '.' : ',';
+
+  const separator = lastDot !== -1 ? '.' : lastComma !== -1 ? ',' : null;
+  if (!separator) return null;
+
+  // Repeated separator can only be a thousands separator
+  if (core.indexOf(separator) !== core.lastIndexOf(separator)) {
+    return separator === '.' ? ',' : '.';
+  }
+
+  const [integerPart = '', fraction = ''] = core.split(separator);
+  // "0,125" or "12,5" - a group that isn't 3 digits, or a zero integer part, is decimal
+  if (fraction.length !== 3 || /^0+$/.test(integerPart)) return separator;
+
+  return null;
+}
+
+/**
+ * Infers the decimal separator of a column by looking at all its values.
+ * Values like "1,234" are ambiguous alone, but "12,50" elsewhere in the column
+ * settles it. Defaults to "." when the column gives no evidence either way.
+ */
+export function inferDecimalSeparator(values: string[]): DecimalSeparator {
+  let dotVotes = 0;
+  let commaVotes = 0;
+
+  for (const value of values) {
+    const core = value.trim().match(NUMBER_PATTERN)?.[2];
+    if (!core) continue;
+    const separator = detectDecimalSeparator(core);
+    if (separator === '.') dotVotes++;
+    if (separator === ',') commaVotes++;
+  }
+
+  return commaVotes > dotVotes ? ',' : '.';
+}
+
+/**
+ * Moves the decimal point of a plain number string right by `exponent` places.
+ * Done on the string so "1.15K" becomes "1150", not "1149.9999999999998".
+ */
+function shiftDecimal(value: string, exponent: number): string {
+  if (exponent === 0) return value;
+
+  const [integerPart = '', fraction = ''] = value.split('.');
+  const padded = fraction.padEnd(exponent, '0');
+  const digits = `${integerPart}${padded.slice(0, exponent)}`.replace(/^0+(?=\d)/, '');
+  const rest = padded.slice(exponent);
+  return rest ? `${digits}.${rest}` : digits;
+}
+
+/**
+ * Checks digit grouping: western "1,234,567" or Indian lakh/crore "12,34,567"
+ */
+function isValidGrouping(integerPart: string, separator: string): boolean {
+  const sep = `\\${separator}`;
+  return (
+    new RegExp(`^\\d{1,3}(${sep}\\d{3})+$`).test(integerPart) ||
+    new RegExp(`^\\d{1,2}(${sep}\\d{2})+${sep}\\d{3}$`).test(integerPart)
+  );
+}
+
+/**
+ * Normalizes a numeric display string to a plain number string.
+ *
+ * - Strips currency symbols/codes and thousands separators
+ * - Accounting negatives "(0.12)" and trailing "0.12-" become "-0.12"
+ * - Magnitude suffixes: "1.2M" → "1200000", "3.4B" → "3400000000"
+ * - Percent sign is dropped: "12.5%" → "12.5"
+ * - Dash placeholders ("—", "-", "N/A") become empty
+ *
+ * Values that aren't numbers (e.g. "0.24 Dividend", dates) are returned unchanged.
+ *
+ * @example
+ * normalizeNumber('$1,234.50') // => "1234.50"
+ * normalizeNumber('1.234,50', ',') // => "1234.50"
+ */
+export function normalizeNumber(value: string, decimal: DecimalSeparator = '.'): string {
+  let text = value.trim().replace(/−/g, '-');
+  if (EMPTY_VALUES.has(text.toLowerCase())) return '';
+
+  // Accounting negative: (0.12)
+  let negative = false;
+  const parenMatch = text.match(/^\((.*)\)$/);
+  if (parenMatch?.[1] !== undefined) {
+    negative = true;
+    text = parenMatch[1].trim();
+  }
+
+  const match = text.match(NUMBER_PATTERN);
+  if (!match) return value;
+  const [, prefix = '', rawCore = '', suffix = ''] = match;
+
+  const prefixInfo = parseAffix(prefix);
+  const suffixInfo = parseAffix(suffix);
+  if (!prefixInfo || !suffixInfo || prefixInfo.exponent !== 0) return value;
+  negative = negative || prefixInfo.negative || suffixInfo.negative;
+
+  // Remove grouping characters, then validate digit groups before the decimal point
+  const core = rawCore.replace(/['\u00a0\u202f ]/g, '');
+  const thousands = decimal === '.' ? ',' : '.';
+  const [integerPart = '', fraction, ...extra] = core.split(decimal);
+  if (extra.length > 0) return value;
+  if (integerPart.includes(thousands) && !isValidGrouping(integerPart, thousands)) {
+    return value;
+  }
+  if (fraction?.includes(thousands)) return value;
+
+  const digits = integerPart.split(thousands).join('');
+  const shifted = shiftDecimal(fraction ? `${digits}.${fraction}` : digits, suffixInfo.exponent);
+  return negative && !/^[0.]+$/.test(shifted) ? `-${shifted}` : shifted;
+}
+
+/**
+ * Normalizes the given columns of a set of data rows.
+ * The decimal separator is inferred per column from all of its values.
+ */
+export function normalizeNumericColumns(rows: string[][], columns: number[]): string[][] {
+  const separators = new Map<number, DecimalSeparator>();
+  for (const col of columns) {
+    separators.set(col, inferDecimalSeparator(rows.map((row) => row[col] || '')));
+  }
+
+  return rows.map((row) =>
+    row.map((cell, i) => {
+      const decimal = separators.get(i);
+      return decimal ? normalizeNumber(cell, decimal) : cell;
+    })
+  );
+}
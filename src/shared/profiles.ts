@@ -0,0 +1,119 @@
+/**
+ * Site profiles for NumNom Chrome extension
+ * Remembers how a table on a site was mapped by hand, so later visits skip detection
+ */
+
+import { MANUAL_MAPPING_FIELDS } from './constants';
+import type { SiteProfile } from './types';
+
+/** Version written to exported profile files */
+const PROFILES_FILE_VERSION = 1;
+
+/**
+ * Escapes text for use inside a RegExp
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Checks if a profile applies to a page: same hostname, and a path matching
+ * the profile's glob ("*" matches anything, an empty pattern matches every page)
+ */
+export function matchesProfile(profile: SiteProfile, url: URL): boolean {
+  if (profile.hostname !== url.hostname) return false;
+  if (!profile.urlPattern) return true;
+
+  const pattern = profile.urlPattern.split('*').map(escapeRegExp).join('.*');
+  return new RegExp(`^${pattern}$`).test(url.pathname);
+}
+
+/**
+ * Finds the profiles for a page, most specific (longest URL pattern) first
+ */
+export function findSiteProfiles(profiles: SiteProfile[], href: string): SiteProfile[] {
+  let url: URL;
+  try {
+    url = new URL(href);
+  } catch {
+    return [];
+  }
+  return profiles
+    .filter((profile) => matchesProfile(profile, url))
+    .sort((a, b) => b.urlPattern.length - a.urlPattern.length);
+}
+
+/**
+ * Checks if two profiles describe the same table (same site, pattern and selector)
+ */
+function isSameTable(a: SiteProfile, b: SiteProfile): boolean {
+  return a.hostname === b.hostname && a.urlPattern === b.urlPattern && a.selector === b.selector;
+}
+
+/**
+ * Adds profiles, replacing saved ones for the same table
+ */
+export function mergeProfiles(profiles: SiteProfile[], added: SiteProfile[]): SiteProfile[] {
+  const kept = profiles.filter((profile) => !added.some((other) => isSameTable(profile, other)));
+  return [...kept, ...added];
+}
+
+/**
+ * Checks the shape of one imported profile
+ */
+function isSiteProfile(value: unknown): value is SiteProfile {
+  const profile = value as SiteProfile;
+  const mapping = profile?.mapping;
+  return (
+    typeof profile?.hostname === 'string' &&
+    profile.hostname !== '' &&
+    typeof profile.urlPattern === 'string' &&
+    typeof profile.selector === 'string' &&
+    profile.selector !== '' &&
+    typeof profile.ticker === 'string' &&
+    typeof mapping === 'object' &&
+    mapping !== null &&
+    Object.keys(MANUAL_MAPPING_FIELDS).includes(mapping.type) &&
+    typeof mapping.headerRows === 'number' &&
+    typeof mapping.columns === 'object' &&
+    mapping.columns !== null &&
+    (mapping.dateOrder === null || mapping.dateOrder === 'MDY' || mapping.dateOrder === 'DMY')
+  );
+}
+
+/**
+ * Parses an exported profiles file.
+ *
+ * @returns the profiles, or an error describing why the file can't be used
+ */
+export function parseProfilesJson(text: string): { profiles: SiteProfile[]; error: string | null } {
+  let parsed: { version?: unknown; profiles?: unknown };
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { profiles: [], error: 'Not a JSON file' };
+  }
+
+  if (parsed?.version !== PROFILES_FILE_VERSION || !Array.isArray(parsed.profiles)) {
+    return { profiles: [], error: 'Not a NumNom profiles file' };
+  }
+  const invalid = parsed.profiles.findIndex((profile) => !isSiteProfile(profile));
+  if (invalid !== -1) {
+    return { profiles: [], error: `Profile ${invalid + 1} is incomplete` };
+  }
+  return { profiles: parsed.profiles as SiteProfile[], error: null };
+}
+
+/**
+ * Formats profiles as an exportable JSON file
+ */
+export function formatProfilesJson(profiles: SiteProfile[]): string {
+  return JSON.stringify({ version: PROFILES_FILE_VERSION, profiles }, null, 2);
+}
+
+/**
+ * Describes a profile for lists: type, site and page pattern
+ */
+export function describeProfile(profile: SiteProfile): string {
+  return `${profile.mapping.type} · ${profile.hostname}${profile.urlPattern || '/*'}`;
+}
@@ -0,0 +1,129 @@
+/**
+ * User settings for NumNom Chrome extension
+ * Persisted in chrome.storage.local so choices survive closing the popup
+ */
+
+import {
+  MAX_FINAL_WAIT_MS,
+  MAX_NO_NEW_ROWS_ATTEMPTS,
+  MAX_SCROLL_ATTEMPTS,
+  MAX_SCROLL_WAIT_MS,
+  SCROLL_VIEWPORT_RATIO,
+  SETTLE_QUIET_MS,
+} from './constants';
+import { DEFAULT_SYNONYM_SETTINGS } from './synonyms';
+import type {
+  CleanOptions,
+  ScrollPreferences,
+  ScrollSettings,
+  SiteProfile,
+  SynonymSettings,
+} from './types';
+
+const CLEAN_OPTIONS_KEY = 'cleanOptions';
+export const SYNONYM_SETTINGS_KEY = 'synonyms';
+export const SITE_PROFILES_KEY = 'siteProfiles';
+const SCROLL_PREFERENCES_KEY = 'scrollPreferences';
+
+/** Cleaning options used when nothing has been saved yet */
+export const DEFAULT_CLEAN_OPTIONS: CleanOptions = {
+  normalizeNumbers: false,
+  timezone: '',
+  statementLayout: 'wide',
+  keyStatsFormat: 'csv',
+};
+
+/**
+ * Loads saved cleaning options, filling in defaults for missing fields
+ */
+export async function loadCleanOptions(): Promise<CleanOptions> {
+  const stored = await chrome.storage.local.get(CLEAN_OPTIONS_KEY);
+  const saved = stored[CLEAN_OPTIONS_KEY] as Partial<CleanOptions> | undefined;
+  return { ...DEFAULT_CLEAN_OPTIONS, ...saved };
+}
+
+/**
+ * Saves cleaning options
+ */
+export async function saveCleanOptions(options: CleanOptions): Promise<void> {
+  await chrome.storage.local.set({ [CLEAN_OPTIONS_KEY]: options });
+}
+
+/**
+ * Loads saved column synonym settings, filling in defaults for missing fields
+ */
+export async function loadSynonymSettings(): Promise<SynonymSettings> {
+  const stored = await chrome.storage.local.get(SYNONYM_SETTINGS_KEY);
+  const saved = stored[SYNONYM_SETTINGS_KEY] as Partial<SynonymSettings> | undefined;
+  return { ...DEFAULT_SYNONYM_SETTINGS, ...saved };
+}
+
+/**
+ * Saves column synonym settings
+ */
+export async function saveSynonymSettings(settings: SynonymSettings): Promise<void> {
+  await chrome.storage.local.set({ [SYNONYM_SETTINGS_KEY]: settings });
+}
+
+/**
+ * Loads saved site profiles
+ */
+export async function loadSiteProfiles(): Promise<SiteProfile[]> {
+  const stored = await chrome.storage.local.get(SITE_PROFILES_KEY);
+  return (stored[SITE_PROFILES_KEY] as SiteProfile[] | undefined) ?? [];
+}
+
+/**
+ * Saves site profiles
+ */
+export async function saveSiteProfiles(profiles: SiteProfile[]): Promise<void> {
+  await chrome.storage.local.set({ [SITE_PROFILES_KEY]: profiles });
+}
+
+/** Scroll settings used when nothing has been saved yet */
+export const DEFAULT_SCROLL_SETTINGS: ScrollSettings = {
+  scrollViewportRatio: SCROLL_VIEWPORT_RATIO,
+  settleQuietMs: SETTLE_QUIET_MS,
+  maxScrollWaitMs: MAX_SCROLL_WAIT_MS,
+  maxFinalWaitMs: MAX_FINAL_WAIT_MS,
+  maxScrollAttempts: MAX_SCROLL_ATTEMPTS,
+  maxNoNewRowsAttempts: MAX_NO_NEW_ROWS_ATTEMPTS,
+};
+
+/**
+ * Loads saved scroll settings and per-domain overrides, filling in defaults
+ */
+export async function loadScrollPreferences(): Promise<ScrollPreferences> {
+  const stored = await chrome.storage.local.get(SCROLL_PREFERENCES_KEY);
+  const saved = stored[SCROLL_PREFERENCES_KEY] as Partial<ScrollPreferences> | undefined;
+  return {
+    defaults: { ...DEFAULT_SCROLL_SETTINGS, ...saved?.defaults },
+    domains: saved?.domains ?? {},
+  };
+}
+
+/**
+ * Saves scroll settings and per-domain overrides
+ */
+export async function saveScrollPreferences(preferences: ScrollPreferences): Promise<void> {
+  await chrome.storage.local.set({ [SCROLL_PREFERENCES_KEY]: preferences });
+}
+
+/**
+ * Resolves the scroll settings for a hostname. A domain override also covers its
+ * subdomains ("example.com" applies to "www.example.com"); more specific domains
+ * are applied last, so they win.
+ */
+export function resolveScrollSettings(
+  preferences: ScrollPreferences,
+  hostname: string
+): ScrollSettings {
+  const host = hostname.toLowerCase();
+  const matching = Object.keys(preferences.domains)
+    .filter((domain) => host === domain || host.endsWith(`.${domain}`))
+    .sort((a, b) => a.length - b.length);
+  return Object.assign(
+    { ...preferences.defaults },
+    ...matching.map((domain) => preferences.domains[domain])
+  );
+}
@@ -0,0 +1,361 @@
+/**
+ * Column synonym dictionaries for NumNom Chrome extension
+ * Translates non-English header words ("Tarikh Ex", "Eröffnung", "終値") into the
+ * English words the column matchers look for, before tokenizing
+ */
+
+import type { SynonymPackId, SynonymSettings } from './types';
+
+/** Maps a local header term to English column words */
+export type SynonymDictionary = Record<string, string>;
+
+/** A built-in synonym pack for one language */
+interface SynonymPack {
+  label: string;
+  synonyms: SynonymDictionary;
+}
+
+/**
+ * Built-in packs. Terms are lowercase; multi-word terms take precedence over the
+ * single words inside them, so "ex-tag" is translated whole rather than as "tag".
+ * Words that English headers use too ("Datum", "Variation") are left out, as every
+ * pack is on by default.
+ */
+export const SYNONYM_PACKS: Record<SynonymPackId, SynonymPack> = {
+  ms: {
+    label: 'Malay',
+    synonyms: {
+      tarikh: 'date',
+      'tarikh ex': 'ex date',
+      'tarikh bayaran': 'payment date',
+      'tarikh pembayaran': 'payment date',
+      'tarikh pengumuman': 'announcement date',
+      diumumkan: 'announced',
+      buka: 'open',
+      tinggi: 'high',
+      rendah: 'low',
+      tutup: 'close',
+      penutup: 'close',
+      harga: 'price',
+      volum: 'volume',
+      dividen: 'dividend',
+      amaun: 'amount',
+      jumlah: 'amount',
+      'jumlah dagangan': 'volume',
+      perkara: 'subject',
+      keterangan: 'description',
+      'nisbah pecahan': 'split ratio',
+      nisbah: 'ratio',
+      saham: 'shares',
+      perubahan: 'change',
+      kod: 'code',
+    },
+  },
+  id: {
+    label: 'Indonesian',
+    synonyms: {
+      tanggal: 'date',
+      'tanggal ex': 'ex date',
+      'tanggal pembayaran': 'payment date',
+      pembukaan: 'open',
+      tertinggi: 'high',
+      terendah: 'low',
+      penutupan: 'close',
+      harga: 'price',
+      dividen: 'dividend',
+      jumlah: 'amount',
+      saham: 'shares',
+      perubahan: 'change',
+      kode: 'code',
+    },
+  },
+  de: {
+    label: 'German',
+    synonyms: {
+      handelstag: 'date',
+      handelsdatum: 'date',
+      'ex-tag': 'ex date',
+      'ex-datum': 'ex date',
+      zahltag: 'payment date',
+      zahlungsdatum: 'payment date',
+      eröffnung: 'open',
+      eroeffnung: 'open',
+      erster: 'open',
+      hoch: 'high',
+      tief: 'low',
+      schluss: 'close',
+      schlusskurs: 'close',
+      kurs: 'price',
+      letzter: 'last',
+      volumen: 'volume',
+      stücke: 'volume',
+      dividende: 'dividend',
+      betrag: 'amount',
+      veränderung: 'change',
+      änderung: 'change',
+      aktien: 'shares',
+      'gewinn je aktie': 'eps',
+      umsatz: 'revenue',
+    },
+  },
+  fr: {
+    label: 'French',
+    synonyms: {
+      'date de détachement': 'ex date',
+      détachement: 'ex',
+      'date de paiement': 'payment date',
+      paiement: 'payment',
+      ouverture: 'open',
+      'plus haut': 'high',
+      'plus bas': 'low',
+      clôture: 'close',
+      cloture: 'close',
+      dernier: 'last',
+      cours: 'price',
+      dividende: 'dividend',
+      montant: 'amount',
+      'bénéfice par action': 'eps',
+      "chiffre d'affaires": 'revenue',
+      'ratio de division': 'split ratio',
+    },
+  },
+  es: {
+    label: 'Spanish',
+    synonyms: {
+      fecha: 'date',
+      'fecha ex': 'ex date',
+      'fecha de pago': 'payment date',
+      apertura: 'open',
+      máximo: 'high',
+      maximo: 'high',
+      mínimo: 'low',
+      minimo: 'low',
+      cierre: 'close',
+      último: 'last',
+      ultimo: 'last',
+      precio: 'price',
+      volumen: 'volume',
+      dividendo: 'dividend',
+      importe: 'amount',
+      monto: 'amount',
+      variación: 'change',
+      acciones: 'shares',
+      ingresos: 'revenue',
+    },
+  },
+  ja: {
+    label: 'Japanese',
+    synonyms: {
+      日付: 'date',
+      年月日: 'date',
+      始値: 'open',
+      高値: 'high',
+      安値: 'low',
+      終値: 'close',
+      調整後終値: 'adj close',
+      出来高: 'volume',
+      配当: 'dividend',
+      配当金: 'dividend amount',
+      権利落ち日: 'ex date',
+      権利付最終日: 'ex date',
+      支払日: 'payment date',
+      支払開始日: 'payment date',
+      株式分割: 'split',
+      分割比率: 'split ratio',
+      銘柄コード: 'symbol',
+      コード: 'code',
+      現在値: 'last',
+      前日比: 'change',
+      騰落率: 'change pct',
+      株数: 'shares',
+      売上高: 'revenue',
+    },
+  },
+  zh: {
+    label: 'Chinese',
+    synonyms: {
+      日期: 'date',
+      交易日期: 'date',
+      开盘: 'open',
+      開盤: 'open',
+      开盘价: 'open',
+      開盤價: 'open',
+      最高: 'high',
+      最高价: 'high',
+      最高價: 'high',
+      最低: 'low',
+      最低价: 'low',
+      最低價: 'low',
+      收盘: 'close',
+      收盤: 'close',
+      收盘价: 'close',
+      收盤價: 'close',
+      成交量: 'volume',
+      股息: 'dividend',
+      派息: 'dividend amount',
+      除息日: 'ex date',
+      除权除息日: 'ex date',
+      除權除息日: 'ex date',
+      派息日: 'payment date',
+      发放日: 'payment date',
+      發放日: 'payment date',
+      拆股: 'split',
+      代码: 'symbol',
+      代碼: 'symbol',
+      最新价: 'last',
+      最新價: 'last',
+      涨跌额: 'change',
+      漲跌額: 'change',
+      涨跌: 'change',
+      漲跌: 'change',
+      涨跌幅: 'change pct',
+      漲跌幅: 'change pct',
+      每股收益: 'eps',
+      营业收入: 'revenue',
+      營業收入: 'revenue',
+    },
+  },
+  ko: {
+    label: 'Korean',
+    synonyms: {
+      날짜: 'date',
+      일자: 'date',
+      시가: 'open',
+      고가: 'high',
+      저가: 'low',
+      종가: 'close',
+      거래량: 'volume',
+      배당금: 'dividend amount',
+      배당락일: 'ex date',
+      지급일: 'payment date',
+      종목코드: 'symbol',
+      현재가: 'last',
+      전일비: 'change',
+      등락률: 'change pct',
+    },
+  },
+};
+
+/** Synonym settings used when nothing has been saved yet (every built-in pack on) */
+export const DEFAULT_SYNONYM_SETTINGS: SynonymSettings = {
+  packs: Object.keys(SYNONYM_PACKS) as SynonymPackId[],
+  custom: {},
+};
+
+/** Compiled dictionary: one pattern over every term, and each term's translation */
+interface CompiledSynonyms {
+  pattern: RegExp | null;
+  translations: Map<string, string>;
+}
+
+/**
+ * Escapes a term for use inside a RegExp
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Normalizes a term for lookup: lowercase, composed accents, single spaces
+ */
+function normalizeTerm(term: string): string {
+  return term.normalize('NFC').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Compiles terms into a single alternation, longest first so multi-word terms win.
+ * Terms written in a script with spaces between words only match whole words;
+ * CJK terms match anywhere, since those headers have no spaces to split on.
+ */
+function compileSynonyms(dictionary: SynonymDictionary): CompiledSynonyms {
+  const translations = new Map<string, string>();
+  for (const [term, english] of Object.entries(dictionary)) {
+    const key = normalizeTerm(term);
+    if (key && english.trim()) translations.set(key, english.trim().toLowerCase());
+  }
+  if (translations.size === 0) return { pattern: null, translations };
+
+  const alternatives = Array.from(translations.keys())
+    .sort((a, b) => b.length - a.length)
+    .map((term) => {
+      const escaped = escapeRegExp(term);
+      return /\p{Script=Latin}|\p{Script=Hangul}/u.test(term)
+        ? `(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`
+        : escaped;
+    });
+  return { pattern: new RegExp(alternatives.join('|'), 'gu'), translations };
+}
+
+let activeSynonyms: CompiledSynonyms = compileSynonyms(buildDictionary(DEFAULT_SYNONYM_SETTINGS));
+
+/**
+ * Merges the enabled built-in packs with the user's own terms (user terms win)
+ */
+export function buildDictionary(settings: SynonymSettings): SynonymDictionary {
+  const dictionary: SynonymDictionary = {};
+  for (const id of settings.packs) {
+    Object.assign(dictionary, SYNONYM_PACKS[id]?.synonyms);
+  }
+  return Object.assign(dictionary, settings.custom);
+}
+
+/**
+ * Replaces the synonyms used by tokenize() (called when settings load or change)
+ */
+export function setSynonymSettings(settings: SynonymSettings): void {
+  activeSynonyms = compileSynonyms(buildDictionary(settings));
+}
+
+/**
+ * Translates known local terms in lowercase header text to English column words.
+ *
+ * @example
+ * applySynonyms('tarikh ex') // => " ex date "
+ * applySynonyms('終値') // => " close "
+ */
+export function applySynonyms(text: string): string {
+  const { pattern, translations } = activeSynonyms;
+  if (!pattern) return text;
+  return text
+    .normalize('NFC')
+    .replace(pattern, (term) => ` ${translations.get(normalizeTerm(term)) ?? term} `);
+}
+
+/**
+ * Parses the options page's synonym text: one "term = english words" per line.
+ * Blank lines and lines starting with "#" are skipped.
+ *
+ * @returns dictionary and the 1-based numbers of lines that could not be read
+ */
+export function parseSynonymText(text: string): {
+  dictionary: SynonymDictionary;
+  invalidLines: number[];
+} {
+  const dictionary: SynonymDictionary = {};
+  const invalidLines: number[] = [];
+
+  text.split('\n').forEach((line, i) => {
+    const trimmed = line.trim();
+    if (trimmed === '' || trimmed.startsWith('#')) return;
+
+    const separator = trimmed.indexOf('=');
+    const term = trimmed.slice(0, separator).trim();
+    const english = trimmed.slice(separator + 1).trim();
+    if (separator === -1 || !term || !english) {
+      invalidLines.push(i + 1);
+      return;
+    }
+    dictionary[term] = english;
+  });
+
+  return { dictionary, invalidLines };
+}
+
+/**
+ * Formats a dictionary as synonym text for the options page
+ */
+export function formatSynonymText(dictionary: SynonymDictionary): string {
+  return Object.entries(dictionary)
+    .map(([term, english]) => `${term} = ${english}`)
+    .join('\n');
+}
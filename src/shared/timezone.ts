@@ -0,0 +1,209 @@
+/**
+ * Timezone helpers for NumNom Chrome extension
+ * Resolves exchange timezone labels ("ET", "GMT+8") and formats ISO 8601 timestamps with offsets
+ */
+
+/** Wall-clock time of day parsed from a table cell */
+export interface TimeOfDay {
+  hours: number;
+  minutes: number;
+  seconds: number;
+}
+
+/** Common timezone abbreviations seen on quote pages → IANA zones (DST handled by the zone) */
+const TIMEZONE_ABBREVIATIONS: Record<string, string> = {
+  ET: 'America/New_York',
+  EST: 'America/New_York',
+  EDT: 'America/New_York',
+  CT: 'America/Chicago',
+  CST: 'America/Chicago',
+  CDT: 'America/Chicago',
+  MT: 'America/Denver',
+  MST: 'America/Denver',
+  MDT: 'America/Denver',
+  PT: 'America/Los_Angeles',
+  PST: 'America/Los_Angeles',
+  PDT: 'America/Los_Angeles',
+  UTC: 'UTC',
+  GMT: 'UTC',
+  Z: 'UTC',
+  BST: 'Europe/London',
+  CET: 'Europe/Berlin',
+  CEST: 'Europe/Berlin',
+  IST: 'Asia/Kolkata',
+  SGT: 'Asia/Singapore',
+  MYT: 'Asia/Kuala_Lumpur',
+  HKT: 'Asia/Hong_Kong',
+  JST: 'Asia/Tokyo',
+  KST: 'Asia/Seoul',
+  AEST: 'Australia/Sydney',
+  AEDT: 'Australia/Sydney',
+};
+
+/** Timezones offered in the popup ('' = auto-detect from the page) */
+export const TIMEZONE_CHOICES: { value: string; label: string }[] = [
+  { value: '', label: 'Auto' },
+  { value: 'UTC', label: 'UTC' },
+  { value: 'America/New_York', label: 'New York (ET)' },
+  { value: 'America/Chicago', label: 'Chicago (CT)' },
+  { value: 'Europe/London', label: 'London' },
+  { value: 'Europe/Berlin', label: 'Frankfurt' },
+  { value: 'Asia/Kolkata', label: 'Mumbai' },
+  { value: 'Asia/Kuala_Lumpur', label: 'Kuala Lumpur' },
+  { value: 'Asia/Singapore', label: 'Singapore' },
+  { value: 'Asia/Hong_Kong', label: 'Hong Kong' },
+  { value: 'Asia/Tokyo', label: 'Tokyo' },
+  { value: 'Australia/Sydney', label: 'Sydney' },
+];
+
+/** Fixed offset zone, e.g. "+08:00" */
+const FIXED_OFFSET_PATTERN = /^([+-])(\d{2}):(\d{2})$/;
+
+/**
+ * Resolves a timezone label to a zone usable by toISOWithOffset.
+ * Accepts abbreviations ("ET"), offsets ("GMT+8", "UTC-05:00", "+0530") and IANA names.
+ *
+ * @returns IANA zone name or fixed offset like "+08:00", or null if unrecognized
+ */
+export function resolveTimezone(label: string): string | null {
+  const trimmed = label.trim();
+  if (!trimmed) return null;
+
+  const abbreviation = TIMEZONE_ABBREVIATIONS[trimmed.toUpperCase()];
+  if (abbreviation) return abbreviation;
+
+  const offsetMatch = trimmed.match(/^(?:GMT|UTC)?\s*([+-])(\d{1,2})(?::?(\d{2}))?$/i);
+  if (offsetMatch?.[1] && offsetMatch[2]) {
+    const hours = offsetMatch[2].padStart(2, '0');
+    const minutes = offsetMatch[3] || '00';
+    return `${offsetMatch[1]}${hours}:${minutes}`;
+  }
+
+  return isValidTimezone(trimmed) ? trimmed : null;
+}
+
+/**
+ * Checks if Intl knows an IANA zone name
+ */
+function isValidTimezone(zone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: zone });
+    return zone.includes('/') || zone === 'UTC';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Where a timezone abbreviation may follow in page text: a time ("4:00 PM ET"), a label
+ * ("Time (ET)", "Date ET", "Prices in ET", "Times are in CT") or an "as of" phrase ("as of Jan 15 ET").
+ * Elsewhere, short uppercase words are more likely tickers or initials than zones.
+ */
+const TIMEZONE_CONTEXT_PATTERNS = [
+  String.raw`\d{1,2}:\d{2}(?::\d{2})?(?:\s*[ap]\.?m\.?)?\s*\(?`,
+  String.raw`\b(?:time|date|datetime|timestamp)s?\s*[([]?\s*`,
+  String.raw`\b(?:times?|prices?|quotes?|data)\s+(?:are\s+)?in\s+`,
+  String.raw`\bas\s+of\b[^.;|\n]{0,30}?\s`,
+];
+
+/**
+ * Finds a timezone mentioned in free text, e.g. "Prices in ET" or "Time (GMT+8)".
+ * Abbreviations only count in uppercase, right after a time or in a timezone phrase.
+ */
+export function findTimezoneInText(text: string): string | null {
+  const offsetMatch = text.match(/\b(?:GMT|UTC)\s*[+-]\d{1,2}(?::?\d{2})?/);
+  if (offsetMatch) return resolveTimezone(offsetMatch[0]);
+
+  const abbreviations = Object.keys(TIMEZONE_ABBREVIATIONS)
+    .filter((abbr) => abbr.length > 1)
+    .join('|');
+  const pattern = new RegExp(
+    `(?:${TIMEZONE_CONTEXT_PATTERNS.join('|')})(${abbreviations})\\b`,
+    'gi'
+  );
+  for (const match of text.matchAll(pattern)) {
+    const abbr = match[1];
+    if (abbr && abbr === abbr.toUpperCase()) return resolveTimezone(abbr);
+  }
+  return null;
+}
+
+/**
+ * Returns the browser's own IANA timezone
+ */
+export function getBrowserTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/**
+ * Returns a zone's UTC offset in minutes at a given instant
+ */
+function getOffsetMinutes(zone: string, utcMillis: number): number {
+  const fixed = zone.match(FIXED_OFFSET_PATTERN);
+  if (fixed?.[1] && fixed[2] && fixed[3]) {
+    const minutes = Number(fixed[2]) * 60 + Number(fixed[3]);
+    return fixed[1] === '-' ? -minutes : minutes;
+  }
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: zone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(utcMillis));
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+
+  const wallAsUtc = Date.UTC(
+    get('year'),
+    get('month') - 1,
+    get('day'),
+    get('hour'),
+    get('minute'),
+    get('second')
+  );
+  return Math.round((wallAsUtc - utcMillis) / 60000);
+}
+
+/** Formats an offset in minutes as "+05:30" */
+function formatOffset(offsetMinutes: number): string {
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  const abs = Math.abs(offsetMinutes);
+  const hours = String(Math.floor(abs / 60)).padStart(2, '0');
+  const minutes = String(abs % 60).padStart(2, '0');
+  return `${sign}${hours}:${minutes}`;
+}
+
+/**
+ * Formats a wall-clock date and time in a zone as ISO 8601 with offset.
+ *
+ * @param date - YYYY-MM-DD
+ * @param zone - IANA name or fixed offset from resolveTimezone()
+ * @example
+ * toISOWithOffset('2024-01-15', { hours: 9, minutes: 30, seconds: 0 }, 'America/New_York')
+ * // => "2024-01-15T09:30:00-05:00"
+ */
+export function toISOWithOffset(date: string, time: TimeOfDay, zone: string): string {
+  const [year = 1970, month = 1, day = 1] = date.split('-').map(Number);
+  const wallMillis = Date.UTC(year, month - 1, day, time.hours, time.minutes, time.seconds);
+
+  // Offset depends on the instant; refine once so times near a DST switch resolve correctly
+  const firstGuess = getOffsetMinutes(zone, wallMillis);
+  const offset = getOffsetMinutes(zone, wallMillis - firstGuess * 60000);
+
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const clock = `${pad(time.hours)}:${pad(time.minutes)}:${pad(time.seconds)}`;
+  return `${date}T${clock}${formatOffset(offset)}`;
+}
+
+/**
+ * Returns today's date (YYYY-MM-DD) as seen in a zone
+ */
+export function getTodayInTimezone(zone: string): string {
+  const now = Date.now();
+  const local = new Date(now + getOffsetMinutes(zone, now) * 60000);
+  return local.toISOString().slice(0, 10);
+}
@@ -3,11 +3,90 @@
  * Single source of truth for all message interfaces
  */
 
+import type { ZipEntry } from './zip';
+
 // Table types detected by the extension
-export type TableType = 'price' | 'dividend';
+// 'close' is the close-only price variant (fund NAV, index closing levels)
+// 'split' covers stock splits and bonus issues
+// 'statement' is a financial statement with fiscal periods as columns
+// 'insider' is insider buy/sell filings; 'holders' is top institutional/fund holders
+// 'quotes' is a watchlist/screener snapshot with one row per symbol
+// 'keystats' merges every label/value table on the page into one record
+export type TableType =
+  | 'price'
+  | 'close'
+  | 'dividend'
+  | 'split'
+  | 'earnings'
+  | 'statement'
+  | 'options'
+  | 'insider'
+  | 'holders'
+  | 'quotes'
+  | 'keystats';
+
+// Export layout of financial statements: periods as columns, or one row per value
+export type StatementLayout = 'wide' | 'long';
+
+// File format of key statistics snapshots
+export type ExportFormat = 'csv' | 'json';
+
+// Corporate actions split out of price history tables
+export type CorporateActionType = 'dividend' | 'split';
+
+// Table types a manually picked table can be mapped to
+export type ManualTableType = 'price' | 'dividend';
+
+// Column mapping chosen by the user for a picked table detection could not read
+export interface ManualMapping {
+  type: ManualTableType;
+  headerRows: number; // rows at the top merged into column names (0 = no header)
+  columns: Record<string, number>; // standard column → source column index; the rest are extras
+  dateOrder: DateOrder | null; // day/month order of numeric dates, null = infer from the values
+}
+
+// Saved mapping of one table on a site, applied automatically on later visits
+export interface SiteProfile {
+  hostname: string; // e.g. "www.bursamalaysia.com"
+  urlPattern: string; // path glob where "*" matches anything, e.g. "/stock/*/history" ('' = every page)
+  selector: string; // CSS selector of the table or grid
+  mapping: ManualMapping;
+  ticker: string; // ticker override, '' = read from the page
+}
+
+// Built-in column synonym packs, by language code
+export type SynonymPackId = 'ms' | 'id' | 'de' | 'fr' | 'es' | 'ja' | 'zh' | 'ko';
+
+// Column synonyms: enabled built-in packs plus the user's own terms
+export interface SynonymSettings {
+  packs: SynonymPackId[];
+  custom: Record<string, string>; // local header term → English column words
+}
+
+// Scrolling and timing of full downloads
+export interface ScrollSettings {
+  scrollViewportRatio: number; // share of the viewport scrolled per step
+  settleQuietMs: number; // time without row changes after which the table counts as loaded
+  maxScrollWaitMs: number; // longest wait after each scroll for rows to settle
+  maxFinalWaitMs: number; // longest wait for more rows after reaching the bottom
+  maxScrollAttempts: number; // scrolls before giving up
+  maxNoNewRowsAttempts: number; // scrolls in a row without new rows before stopping
+}
+
+// Global scroll settings plus overrides per domain (which also cover its subdomains)
+export interface ScrollPreferences {
+  defaults: ScrollSettings;
+  domains: Record<string, Partial<ScrollSettings>>;
+}
+
+// Day/month order of numeric dates like "03/04/2024"
+export type DateOrder = 'MDY' | 'DMY';
 
 // Download status values
-export type DownloadStatus = 'scrolling' | 'complete' | 'error' | 'cancelled';
+export type DownloadStatus = 'scrolling' | 'paging' | 'complete' | 'error' | 'cancelled';
+
+// Control that pages through a table: "Next", numbered pages, "Load more", or one picked by hand
+export type PagerKind = 'next' | 'numbered' | 'load-more' | 'picked';
 
 // Source of ticker extraction (for debugging/logging)
 export type TickerSource =
@@ -16,6 +95,7 @@ export type TickerSource =
   | 'meta-twitter'
   | 'url-pattern'
   | 'table-header'
+  | 'profile'
   | 'none';
 
 // Message from content script to background (badge updates)
@@ -27,12 +107,102 @@ export interface TableCountMessage {
 // Message from popup to content script (request table data)
 export interface GetTablesMessage {
   action: 'getTables';
+  options?: CleanOptions;
+}
+
+// Message from popup to content script (request detection diagnostics)
+export interface GetDiagnosticsMessage {
+  action: 'getDiagnostics';
+}
+
+// Message from popup to content script (start picking a table on the page)
+export interface StartPickerMessage {
+  action: 'startPicker';
+}
+
+// Message from popup to content script (read the picked table)
+export interface GetPickedTableMessage {
+  action: 'getPickedTable';
+}
+
+// Message from popup to content script (forget the picked table)
+export interface ClearPickedTableMessage {
+  action: 'clearPickedTable';
+}
+
+// Options controlling how table data is cleaned for export
+export interface CleanOptions {
+  normalizeNumbers: boolean; // "$1,234.50" → "1234.50", "(0.12)" → "-0.12", "1.2M" → "1200000"
+  timezone: string; // IANA zone for intraday timestamps, '' = detect from page
+  statementLayout: StatementLayout; // 'long' exports period, line_item, value rows
+  keyStatsFormat: ExportFormat; // key statistics snapshot file format
 }
 
 // Message from popup to content script (start download)
 export interface StartFullDownloadMessage {
   action: 'startFullDownload';
   tableIndex: number;
+  options: CleanOptions;
+}
+
+// Message from popup to content script (start download of the picked table)
+export interface StartManualDownloadMessage {
+  action: 'startManualDownload';
+  mapping: ManualMapping;
+  options: CleanOptions;
+}
+
+// Message from popup to content script (pick the next-page button of a table)
+export interface StartPagerPickerMessage {
+  action: 'startPagerPicker';
+  tableIndex: number;
+}
+
+// A detected table by index, the table picked on the page, or every detected table (as a ZIP)
+export type DownloadTarget = number | 'picked' | 'all';
+
+// One table of a download job
+export interface JobTable {
+  target: number | 'picked';
+  tableType: TableType;
+  ticker: string; // '' for tables listing many symbols
+  timeframe?: string;
+}
+
+// A full download the background runs for a tab. Its tables are downloaded one after another;
+// one table is saved as its own file, several are bundled into a ZIP with a manifest.
+export interface DownloadJob {
+  tabId: number;
+  target: DownloadTarget;
+  tables: JobTable[];
+  current: number; // index in tables of the table being downloaded
+  ticker: string; // page ticker, for the bundle name and manifest
+  tickerSource: TickerSource | 'edited'; // 'edited' = changed in the popup
+  pageUrl: string;
+  keyStatsFormat: ExportFormat;
+  options: CleanOptions;
+  mapping?: ManualMapping; // column mapping of the picked table
+  progress: ProgressUpdate | null; // latest progress, without csvData
+  documentId?: string; // page the job runs in, known from its first progress
+}
+
+// Message from popup to background (run a full download as a job)
+export interface StartDownloadJobMessage {
+  action: 'startDownloadJob';
+  job: Omit<DownloadJob, 'current' | 'progress' | 'documentId'>;
+}
+
+// Message from popup to background (find the running job of a tab, to reattach to it)
+export interface GetDownloadJobMessage {
+  action: 'getDownloadJob';
+  tabId: number;
+}
+
+// Message from background to popup (progress of a tab's job)
+export interface JobProgressMessage {
+  action: 'jobProgress';
+  tabId: number;
+  progress: ProgressUpdate;
 }
 
 // Message from popup to content script (cancel download)
@@ -40,16 +210,42 @@ export interface CancelDownloadMessage {
   action: 'cancelDownload';
 }
 
+// Message from background to content script (watch a job's page after a restart; never answered)
+export interface WatchPageMessage {
+  action: 'watchPage';
+}
+
 // Message from content script to popup (progress updates)
 export interface ProgressUpdate {
   action: 'downloadProgress';
   progress: number; // 0-100
   rowsCollected: number;
   status: DownloadStatus;
+  page?: number; // while paging: pages read so far
+  pageCount?: number; // while paging: total pages, when the pager shows it
+  table?: number; // in a bundle: position of the table being downloaded (from 1)
+  tableCount?: number; // in a bundle: number of tables
   csvData?: string;
+  corporateActions?: CorporateActionOutput[]; // with csvData on complete, for price tables
+  conflicts?: RowConflict[]; // with csvData on complete: rows whose values changed between reads
   error?: string;
 }
 
+// A row read more than once during a full download with different values; the last read is kept
+export interface RowConflict {
+  key: string; // key cells of the row, e.g. "2024-01-15" or "2024-03-01|0.24|Cash"
+  occurrence: number; // 1 = first row with this key, 2 = second, ...
+  previous: string[];
+  current: string[];
+}
+
+// Dividend or split rows found inside a price table, exported as their own CSV
+export interface CorporateActionOutput {
+  type: CorporateActionType;
+  rows: number;
+  csvData: string;
+}
+
 // Individual table info
 export interface TableInfo {
   index: number;
@@ -58,6 +254,13 @@ export interface TableInfo {
   csvData: string;
   type: TableType;
   timeframe?: string; // e.g., "1M", "1D", "1W" (for price tables)
+  timezone?: string; // zone of intraday timestamps (price tables with times)
+  dateOrder?: DateOrder; // day/month order used for numeric dates
+  dateOrderAmbiguous?: boolean; // order came from the page locale, or values disagreed
+  invalidDates?: number; // rows with dates that could not be parsed
+  corporateActions?: CorporateActionOutput[]; // dividend/split rows found in a price table
+  profile?: string; // URL pattern of the site profile that mapped the table
+  pager?: PagerKind; // full download clicks through pages instead of scrolling
 }
 
 // Response from content script to popup (table data)
@@ -67,8 +270,103 @@ export interface TablesResponse {
   tickerSource: TickerSource;
 }
 
+// Detection result for one table or grid on the page, detected or rejected
+export interface TableDiagnosis {
+  index: number; // position among all tables/grids on the page
+  element: string; // e.g. "table#prices", "div[role=grid]"
+  rows: number;
+  type: TableType | null; // null = rejected
+  closestType: TableType | null; // for rejected tables: type with most required columns found
+  confidence: number; // 0-1; detected tables score 0.5 and up, rejected ones at most 0.4
+  headerRows: number; // rows merged into the header that was used (0 = none)
+  headers: string[];
+  matched: Record<string, string>; // standard column → source header
+  missing: string[]; // required columns not found ("a or b" for alternatives)
+  reason: string;
+}
+
+// Table or grid picked on the page, for the column mapping screen
+export interface PickedTable {
+  element: string; // e.g. "table#prices", "div[role=grid]"
+  selector: string; // CSS selector finding the table again on later visits
+  rows: number;
+  headers: string[][]; // column names when merging the first n rows (index n; [0] is empty)
+  preview: string[][]; // first rows of the table
+}
+
+// Response from content script to popup (picked table)
+export interface PickedTableResponse {
+  table: PickedTable | null;
+  ticker: string;
+}
+
+// Response from content script to popup (detection diagnostics)
+export interface DiagnosticsResponse {
+  tables: TableDiagnosis[];
+}
+
 // Union type for messages content script receives
 export type ContentScriptMessage =
   | GetTablesMessage
+  | GetDiagnosticsMessage
+  | StartPickerMessage
+  | GetPickedTableMessage
+  | ClearPickedTableMessage
   | StartFullDownloadMessage
-  | CancelDownloadMessage;
+  | StartManualDownloadMessage
+  | StartPagerPickerMessage
+  | CancelDownloadMessage
+  | WatchPageMessage;
+
+// Message from background to offscreen document (make a blob URL of a file to download)
+export interface CreateFileUrlMessage {
+  action: 'createFileUrl';
+  content: string;
+  mimeType: string;
+}
+
+// Message from background to offscreen document (hold a file of a tab's bundle until it is zipped)
+export interface AddBundleFileMessage {
+  action: 'addBundleFile';
+  tabId: number;
+  entry: ZipEntry;
+}
+
+// Message from background to offscreen document (make a blob URL of a ZIP of a tab's bundle)
+export interface CreateZipUrlMessage {
+  action: 'createZipUrl';
+  tabId: number;
+  manifest: ZipEntry;
+}
+
+// Message from background to offscreen document (drop the files of a bundle that won't be saved)
+export interface DiscardBundleMessage {
+  action: 'discardBundle';
+  tabId: number;
+}
+
+// Message from background to offscreen document (free a blob URL once its download ended)
+export interface RevokeFileUrlMessage {
+  action: 'revokeFileUrl';
+  url: string;
+}
+
+// Response from offscreen document to background (blob URL of a file)
+export interface FileUrlResponse {
+  url: string;
+}
+
+// Union type for messages the offscreen document receives
+export type OffscreenMessage =
+  | CreateFileUrlMessage
+  | AddBundleFileMessage
+  | CreateZipUrlMessage
+  | DiscardBundleMessage
+  | RevokeFileUrlMessage;
+
+// Union type for messages the background receives
+export type BackgroundMessage =
+  | TableCountMessage
+  | StartDownloadJobMessage
+  | GetDownloadJobMessage
+  | ProgressUpdate;
@@ -2,21 +2,30 @@
  * Shared utility functions for NumNom Chrome extension
  */
 
+import { applySynonyms } from './synonyms';
+import { type TimeOfDay, resolveTimezone } from './timezone';
+import type { DateOrder } from './types';
+
 /**
  * Tokenizes a string by normalizing and splitting into words.
- * Handles: spaces, hyphens, underscores, and camelCase.
+ * Handles: spaces, hyphens, underscores, punctuation, and camelCase.
+ * Non-English terms from the synonym dictionaries are translated first.
  *
  * @example
  * tokenize("Ex-Dividend Date") // => Set{"ex", "dividend", "date"}
  * tokenize("ExDate") // => Set{"ex", "date"}
+ * tokenize("Adj. Close**") // => Set{"adj", "close"}
+ * tokenize("Tarikh Ex") // => Set{"ex", "date"}
  */
 export function tokenize(str: string): Set<string> {
   return new Set(
-    str
-      // Insert space before uppercase letters (camelCase splitting)
-      .replace(/([a-z])([A-Z])/g, '$1 $2')
-      .toLowerCase()
-      .replace(/[-_]/g, ' ')
+    applySynonyms(
+      str
+        // Insert space before uppercase letters (camelCase splitting)
+        .replace(/([a-z])([A-Z])/g, '$1 $2')
+        .toLowerCase()
+    )
+      .replace(/[^a-z0-9]+/g, ' ')
       .split(/\s+/)
       .filter(Boolean)
   );
@@ -95,6 +104,403 @@ export function isDescriptionColumn(name: string): boolean {
   return tokens.has('subject') || tokens.has('description');
 }
 
+// ============================================================================
+// Split Column Matchers
+// Used for stock split and bonus issue tables (ex_date and description reuse
+// the dividend matchers)
+// ============================================================================
+
+/**
+ * Matches split/bonus ratio column.
+ * Pattern: has "ratio" OR "split" OR "bonus" OR "entitlement", AND not "date"
+ * Examples: "Split Ratio", "Ratio", "Bonus", "Bonus Ratio", "Entitlement"
+ */
+export function isSplitRatioColumn(name: string): boolean {
+  const tokens = tokenize(name);
+  if (tokens.has('date')) return false;
+  return (
+    tokens.has('ratio') || tokens.has('split') || tokens.has('bonus') || tokens.has('entitlement')
+  );
+}
+
+/**
+ * Matches a ratio column that names the event, unlike ratios of other tables
+ * ("P/E Ratio", "Put/Call Ratio").
+ * Pattern: has "split" OR "bonus" OR "entitlement", AND not "date"
+ * Examples: "Split Ratio", "Split", "Bonus", "Bonus Issue", "Entitlement"
+ */
+export function isSplitEventColumn(name: string): boolean {
+  const tokens = tokenize(name);
+  if (tokens.has('date')) return false;
+  return tokens.has('split') || tokens.has('bonus') || tokens.has('entitlement');
+}
+
+// ============================================================================
+// Earnings Column Matchers
+// Used for quarterly earnings history and estimate tables
+// ============================================================================
+
+/**
+ * Matches fiscal period column.
+ * Pattern: has "fiscal" OR "quarter" OR "qtr" OR "period"
+ * Examples: "Fiscal Quarter", "Fiscal Quarter End", "Period", "Qtr"
+ */
+export function isFiscalPeriodColumn(name: string): boolean {
+  const tokens = tokenize(name);
+  return tokens.has('fiscal') || tokens.has('quarter') || tokens.has('qtr') || tokens.has('period');
+}
+
+/**
+ * Checks for an earnings-per-share name: "EPS" or "Earnings Per Share"
+ */
+function hasEpsTokens(tokens: Set<string>): boolean {
+  return tokens.has('eps') || (tokens.has('earnings') && tokens.has('share'));
+}
+
+/**
+ * Checks for an estimate name: "Estimate", "Est", "Forecast", "Consensus", "Expected"
+ */
+function hasEstimateTokens(tokens: Set<string>): boolean {
+  return (
+    tokens.has('estimate') ||
+    tokens.has('est') ||
+    tokens.has('forecast') ||
+    tokens.has('consensus') ||
+    tokens.has('expected')
+  );
+}
+
+/**
+ * Matches EPS estimate column.
+ * Examples: "EPS Estimate", "Consensus EPS Forecast", "EPS Est."
+ */
+export function isEpsEstimateColumn(name: string): boolean {
+  const tokens = tokenize(name);
+  return hasEpsTokens(tokens) && hasEstimateTokens(tokens);
+}
+
+/**
+ * Matches reported EPS column.
+ * Examples: "Reported EPS", "EPS Actual", "Earnings Per Share"
+ * Note: Also matches estimates; use with priority-based claiming so "EPS Estimate"
+ * gets claimed first.
+ */
+export function isEpsActualColumn(name: string): boolean {
+  return hasEpsTokens(tokenize(name));
+}
+
+/**
+ * Matches earnings surprise percentage column.
+ * Pattern: has "surprise" AND ("%" OR "percent" OR "pct")
+ * Examples: "Surprise(%)", "% Surprise", "Surprise Percent"
+ */
+export function isSurprisePercentColumn(name: string): boolean {
+  const tokens = tokenize(name);
+  return (
+    tokens.has('surprise') && (name.includes('%') || tokens.has('percent') || tokens.has('pct'))
+  );
+}
+
+/**
+ * Matches revenue estimate column.
+ * Examples: "Revenue Estimate", "Revenue Forecast", "Sales Est."
+ */
+export function isRevenueEstimateColumn(name: string): boolean {
+  const tokens = tokenize(name);
+  return (tokens.has('revenue') || tokens.has('sales')) && hasEstimateTokens(tokens);
+}
+
+/**
+ * Matches reported revenue column.
+ * Examples: "Revenue", "Reported Revenue", "Sales"
+ * Note: Use with priority-based claiming so "Revenue Estimate" gets claimed first.
+ */
+export function isRevenueActualColumn(name: string): boolean {
+  const tokens = tokenize(name);
+  return tokens.has('revenue') || tokens.has('sales');
+}
+
+// ============================================================================
+// Options Chain Column Matchers
+// Used for option chains, including calls and puts side by side around a strike column
+// ============================================================================
+
+/**
+ * Matches strike price column.
+ * Examples: "Strike", "Strike Price"
+ */
+export function isStrikeColumn(name: string): boolean {
+  return tokenize(name).has('strike');
+}
+
+/**
+ * Matches bid column.
+ * Examples: "Bid", "Bid Price", "Calls · Bid"
+ */
+export function isBidColumn(name: string): boolean {
+  return tokenize(name).has('bid');
+}
+
+/**
+ * Matches ask column.
+ * Examples: "Ask", "Offer", "Ask Price"
+ */
+export function isAskColumn(name: string): boolean {
+  const tokens = tokenize(name);
+  return tokens.has('ask') || tokens.has('offer');
+}
+
+/**
+ * Matches last traded price column (not the last trade date).
+ * Examples: "Last", "Last Price", "LTP"
+ */
+export function isLastPriceColumn(name: string): boolean {
+  const tokens = tokenize(name);
+  if (tokens.has('date') || tokens.has('time')) return false;
+  return tokens.has('last') || tokens.has('ltp');
+}
+
+/**
+ * Matches open interest column.
+ * Examples: "Open Interest", "OI", "Open Int"
+ */
+export function isOpenInterestColumn(name: string): boolean {
+  const tokens = tokenize(name);
+  return tokens.has('oi') || (tokens.has('open') && (tokens.has('interest') || tokens.has('int')));
+}
+
+/**
+ * Matches implied volatility column.
+ * Examples: "IV", "Implied Volatility", "Imp Vol"
+ * Note: "Imp Vol" also matches isVolumeColumn; use with priority-based claiming.
+ */
+export function isImpliedVolatilityColumn(name: string): boolean {
+  const tokens = tokenize(name);
+  return tokens.has('iv') || tokens.has('volatility') || tokens.has('implied') || tokens.has('imp');
+}
+
+/**
+ * Matches option expiry column.
+ * Examples: "Expiry", "Expiration Date", "Exp"
+ */
+export function isExpiryColumn(name: string): boolean {
+  const tokens = tokenize(name);
+  return (
+    tokens.has('expiry') || tokens.has('expiration') || tokens.has('expiring') || tokens.has('exp')
+  );
+}
+
+/**
+ * Matches option contract symbol column.
+ * Examples: "Contract Name", "Contract", "Option Symbol"
+ */
+export function isContractColumn(name: string): boolean {
+  const tokens = tokenize(name);
+  return tokens.has('contract') || (tokens.has('option') && tokens.has('symbol'));
+}
+
+/**
+ * Matches call/put column.
+ * Examples: "Type", "Call/Put", "Option Type"
+ */
+export function isOptionTypeColumn(name: string): boolean {
+  const tokens = tokenize(name);
+  return tokens.has('type') || (tokens.has('call') && tokens.has('put'));
+}
+
+// ============================================================================
+// Quote Column Matchers
+// Used for watchlists and screeners with one row per symbol
+// ============================================================================
+
+/**
+ * Matches ticker symbol column.
+ * Examples: "Symbol", "Ticker", "Stock Code"
+ * Note: Option contract columns ("Option Symbol") are excluded.
+ */
+export function isSymbolColumn(name: string): boolean {
+  if (isContractColumn(name)) return false;
+  const tokens = tokenize(name);
+  return tokens.has('symbol') || tokens.has('ticker') || tokens.has('code');
+}
+
+/**
+ * Matches current quote price column.
+ * Examples: "Last", "Last Price", "Price", "LTP"
+ */
+export function isQuotePriceColumn(name: string): boolean {
+  return isLastPriceColumn(name) || tokenize(name).has('price');
+}
+
+/**
+ * Checks for a price change token: "Change", "Chg", "Chng"
+ */
+function hasChangeTokens(tokens: Set<string>): boolean {
+  return tokens.has('change') || tokens.has('chg') || tokens.has('chng');
+}
+
+/**
+ * Matches percent change column.
+ * Pattern: has "change"/"chg" AND ("%" OR "percent" OR "pct")
+ * Examples: "% Change", "Chg %", "Change (%)", "Percent Change"
+ */
+export function isChangePercentColumn(name: string): boolean {
+  const tokens = tokenize(name);
+  return (
+    hasChangeTokens(tokens) && (name.includes('%') || tokens.has('percent') || tokens.has('pct'))
+  );
+}
+
+/**
+ * Matches absolute price change column.
+ * Examples: "Change", "Chg", "Net Change", "Price Change"
+ * Note: Also matches percent change; use with priority-based claiming so
+ * "% Change" gets claimed as change_pct first.
+ */
+export function isChangeColumn(name: string): boolean {
+  return hasChangeTokens(tokenize(name));
+}
+
+// ============================================================================
+// Ownership Column Matchers
+// Used for insider transaction filings and institutional/fund holder tables
+// ============================================================================
+
+/**
+ * Matches insider name column.
+ * Examples: "Insider", "Insider Name", "Reporting Owner", "Filer"
+ * Note: "Owner Type" is not a name column.
+ */
+export function isInsiderColumn(name: string): boolean {
+  const tokens = tokenize(name);
+  if (tokens.has('type')) return false;
+  return tokens.has('insider') || tokens.has('owner') || tokens.has('filer');
+}
+
+/**
+ * Matches insider relation column.
+ * Examples: "Relation", "Relationship", "Title", "Position", "Role"
+ */
+export function isRelationColumn(name: string): boolean {
+  const tokens = tokenize(name);
+  return (
+    tokens.has('relation') ||
+    tokens.has('relationship') ||
+    tokens.has('title') ||
+    tokens.has('position') ||
+    tokens.has('role')
+  );
+}
+
+/**
+ * Matches transaction type column (not the transaction date, shares or value).
+ * Examples: "Transaction", "Transaction Type", "Type", "Buy/Sell", "Trade Type"
+ * Note: "Owner Type" is excluded.
+ */
+export function isTransactionTypeColumn(name: string): boolean {
+  const tokens = tokenize(name);
+  if (tokens.has('date') || tokens.has('owner') || tokens.has('shares') || tokens.has('value')) {
+    return false;
+  }
+  return (
+    tokens.has('transaction') ||
+    tokens.has('trade') ||
+    tokens.has('type') ||
+    (tokens.has('buy') && tokens.has('sell'))
+  );
+}
+
+/**
+ * Matches share count column.
+ * Examples: "Shares", "Shares Traded", "Shares Held", "Qty", "Quantity"
+ */
+export function isSharesColumn(name: string): boolean {
+  const tokens = tokenize(name);
+  return tokens.has('shares') || tokens.has('qty') || tokens.has('quantity');
+}
+
+/**
+ * Matches per-share transaction price column.
+ * Examples: "Price", "Last Price", "Avg Price", "Cost"
+ */
+export function isTransactionPriceColumn(name: string): boolean {
+  const tokens = tokenize(name);
+  return tokens.has('price') || tokens.has('cost');
+}
+
+/**
+ * Matches total value column.
+ * Examples: "Value", "Value ($)", "Market Value", "Amount"
+ */
+export function isValueColumn(name: string): boolean {
+  const tokens = tokenize(name);
+  return tokens.has('value') || tokens.has('amount');
+}
+
+/**
+ * Matches holder name column.
+ * Examples: "Holder", "Institution", "Investor Name", "Fund", "Owner Name"
+ */
+export function isHolderColumn(name: string): boolean {
+  const tokens = tokenize(name);
+  return (
+    tokens.has('holder') ||
+    tokens.has('institution') ||
+    tokens.has('investor') ||
+    tokens.has('fund') ||
+    (tokens.has('owner') && tokens.has('name'))
+  );
+}
+
+/**
+ * Matches percent held column (not the change in holdings).
+ * Pattern: ("%" OR "pct" OR "percent" OR "ownership") AND not "change"
+ * Examples: "% Out", "Pct Held", "% of Shares", "Ownership"
+ */
+export function isHoldingPercentColumn(name: string): boolean {
+  const tokens = tokenize(name);
+  if (hasChangeTokens(tokens)) return false;
+  return (
+    name.includes('%') || tokens.has('pct') || tokens.has('percent') || tokens.has('ownership')
+  );
+}
+
+/**
+ * Matches holdings report date column.
+ * Examples: "Date Reported", "Filing Date", "Reported", "As Of"
+ */
+export function isDateReportedColumn(name: string): boolean {
+  const tokens = tokenize(name);
+  return (
+    isDateColumn(name) ||
+    tokens.has('reported') ||
+    tokens.has('filed') ||
+    tokens.has('filing') ||
+    (tokens.has('as') && tokens.has('of'))
+  );
+}
+
+/** Words that mark an insider transaction as a purchase or a sale */
+const BUY_WORDS = new Set(['buy', 'bought', 'purchase', 'purchased', 'acquisition', 'acquired']);
+const SELL_WORDS = new Set(['sell', 'sold', 'sale', 'disposal', 'disposed']);
+
+/**
+ * Normalizes an insider transaction type to "buy" or "sell" when the text says so.
+ * Other transactions (option exercises, gifts, awards) are returned trimmed.
+ *
+ * @example
+ * normalizeTransactionType('P - Purchase') // => "buy"
+ * normalizeTransactionType('Sale at price 182.45 per share.') // => "sell"
+ * normalizeTransactionType('Stock Award(Grant)') // => "Stock Award(Grant)"
+ */
+export function normalizeTransactionType(value: string): string {
+  const words = Array.from(tokenize(value));
+  const isBuy = words.some((word) => BUY_WORDS.has(word));
+  const isSell = words.some((word) => SELL_WORDS.has(word));
+  if (isBuy !== isSell) return isBuy ? 'buy' : 'sell';
+  return value.trim();
+}
+
 // ============================================================================
 // Price Column Matchers
 // Used for detecting OHLC (Open, High, Low, Close) price tables
@@ -110,12 +516,26 @@ export function isOpenColumn(name: string): boolean {
 
 /**
  * Matches close price column.
- * Examples: "Close", "Adj Close", "Close Price", "Closing"
+ * Examples: "Close", "Close*", "Close Price"
+ * Note: Also matches "Adj Close"; use with priority-based claiming so it gets claimed
+ * as adj_close first.
  */
 export function isCloseColumn(name: string): boolean {
   return tokenize(name).has('close');
 }
 
+/**
+ * Matches adjusted close column (split/dividend adjusted).
+ * Pattern: has "close" or "closing" AND has "adj" or "adjusted"
+ * Examples: "Adj Close", "Adj. Close**", "Adjusted Close", "AdjClose"
+ */
+export function isAdjCloseColumn(name: string): boolean {
+  const tokens = tokenize(name);
+  return (
+    (tokens.has('close') || tokens.has('closing')) && (tokens.has('adj') || tokens.has('adjusted'))
+  );
+}
+
 /**
  * Matches high price column.
  * Examples: "High", "High Price", "Day High"
@@ -132,6 +552,47 @@ export function isLowColumn(name: string): boolean {
   return tokenize(name).has('low');
 }
 
+/**
+ * Matches the value column of a close-only series (fund NAV, index level, bond price).
+ * Examples: "Close", "Closing", "NAV", "Price", "Last", "Closing Level"
+ */
+export function isClosingValueColumn(name: string): boolean {
+  const tokens = tokenize(name);
+  return (
+    tokens.has('close') ||
+    tokens.has('closing') ||
+    tokens.has('nav') ||
+    tokens.has('price') ||
+    tokens.has('last') ||
+    tokens.has('level')
+  );
+}
+
+/**
+ * Matches a price column that may hold trade prices rather than closes: "Price" or
+ * "Last" without a closing/NAV/level word.
+ * Examples: "Price", "Last", "Last Price" (not "Closing Price", "NAV Price")
+ */
+export function isTradePriceColumn(name: string): boolean {
+  const tokens = tokenize(name);
+  return (
+    (tokens.has('price') || tokens.has('last')) &&
+    !tokens.has('close') &&
+    !tokens.has('closing') &&
+    !tokens.has('nav') &&
+    !tokens.has('level')
+  );
+}
+
+/**
+ * Matches traded volume column.
+ * Examples: "Volume", "Vol", "Vol."
+ */
+export function isVolumeColumn(name: string): boolean {
+  const tokens = tokenize(name);
+  return tokens.has('volume') || tokens.has('vol');
+}
+
 /**
  * Matches date column for price tables.
  * Examples: "Date", "Trade Date", "Date · 1M"
@@ -140,6 +601,29 @@ export function isDateColumn(name: string): boolean {
   return tokenize(name).has('date');
 }
 
+/**
+ * Matches the date column of a price series, intraday time columns included.
+ * Examples: "Date", "Time (ET)", "Datetime", "Timestamp"
+ */
+export function isDateTimeColumn(name: string): boolean {
+  const tokens = tokenize(name);
+  return (
+    isDateColumn(name) || tokens.has('time') || tokens.has('datetime') || tokens.has('timestamp')
+  );
+}
+
+/**
+ * Matches a date column that holds only a time of day, as trade tapes and
+ * time-and-sales tables have.
+ * Examples: "Time", "Time (ET)", "Trade Time" (not "Date", "Datetime", "Date/Time")
+ */
+export function isTimeOnlyColumn(name: string): boolean {
+  const tokens = tokenize(name);
+  return (
+    tokens.has('time') && !tokens.has('date') && !tokens.has('datetime') && !tokens.has('timestamp')
+  );
+}
+
 /**
  * Normalizes text for Excel compatibility.
  * - Replaces Unicode minus (U+2212) with ASCII hyphen-minus (U+002D)
@@ -199,18 +683,25 @@ const MONTH_NAMES: Record<string, number> = {
   december: 12,
 };
 
+/** Marker returned by parseDateToISO for values it cannot read */
+export const INVALID_DATE = 'INVALID_DATE';
+
+/** Numeric date like "03/04/2024", "03.04.2024" or "03-04-2024" */
+const NUMERIC_DATE_PATTERN = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/;
+
 /**
  * Parses a date string and returns it in YYYY-MM-DD format.
  *
  * Supported formats:
  * - ISO: "2024-01-15", "2024/01/15"
- * - US: "01/15/2024", "1/15/2024"
- * - EU: "15/01/2024" (only when day > 12)
+ * - Numeric: "01/15/2024" (MDY) or "15/01/2024" (DMY), read in the given order;
+ *   values that only fit the other order (e.g. "15/01/2024" as MDY) use that one
  * - Text: "Jan 15, 2024", "15 Jan 2024"
  *
- * @returns YYYY-MM-DD string, empty string for empty/dash input, or "INVALID_DATE"
+ * @param order - Day/month order for numeric dates, usually from inferDateOrder()
+ * @returns YYYY-MM-DD string, empty string for empty/dash input, or INVALID_DATE
  */
-export function parseDateToISO(dateStr: string): string {
+export function parseDateToISO(dateStr: string, order: DateOrder = 'MDY'): string {
   const trimmed = dateStr.trim();
   if (!trimmed || trimmed === '-') return '';
 
@@ -264,23 +755,121 @@ export function parseDateToISO(dateStr: string): string {
   }
 
   // Try numeric format: MM/DD/YYYY or DD/MM/YYYY
-  const numericMatch = trimmed.match(/^(\d{1,2})[/.](\d{1,2})[/.](\d{4})$/);
+  const numericMatch = trimmed.match(NUMERIC_DATE_PATTERN);
   if (numericMatch?.[1] && numericMatch[2] && numericMatch[3]) {
     const f = +numericMatch[1];
     const s = +numericMatch[2];
     const y = +numericMatch[3];
 
-    // If first > 12, must be EU format (DD/MM/YYYY)
-    if (f > 12 && s <= 12) {
-      const date = createValidDate(y, s, f);
-      if (date) return formatToISO(date);
-    }
-    // Otherwise use US format (MM/DD/YYYY)
-    const date = createValidDate(y, f, s);
+    // Preferred order first, then the other one for values that only fit it
+    const date =
+      order === 'DMY'
+        ? createValidDate(y, s, f) || createValidDate(y, f, s)
+        : createValidDate(y, f, s) || createValidDate(y, s, f);
     if (date) return formatToISO(date);
   }
 
-  return 'INVALID_DATE';
+  return INVALID_DATE;
+}
+
+/** Result of inferring the day/month order of a date column */
+export interface DateOrderInference {
+  order: DateOrder;
+  ambiguous: boolean; // no value settled the order, or values disagreed
+  hasNumericDates: boolean; // false when the order doesn't matter (ISO/text dates only)
+}
+
+/** Locales that write numeric dates month-first */
+const MDY_LOCALES = ['en', 'en-us', 'en-ph', 'es-us', 'fil'];
+
+/**
+ * Returns the day/month order customary for a locale (e.g. "en-US" → MDY, "de" → DMY).
+ * Unknown or empty locales default to MDY.
+ */
+export function getLocaleDateOrder(locale: string): DateOrder {
+  const normalized = locale.trim().toLowerCase();
+  if (!normalized) return 'MDY';
+  return MDY_LOCALES.includes(normalized) ? 'MDY' : 'DMY';
+}
+
+/**
+ * Infers one day/month order for a whole column of dates.
+ * A value like "25/03/2024" proves DMY and "03/25/2024" proves MDY; when no value
+ * decides it (all parts ≤ 12) the page locale is used and the result is ambiguous.
+ *
+ * @example
+ * inferDateOrder(['03/04/2024', '25/04/2024'], 'en-US') // => { order: 'DMY', ambiguous: false, ... }
+ */
+export function inferDateOrder(values: string[], locale: string): DateOrderInference {
+  let dmyVotes = 0;
+  let mdyVotes = 0;
+  let numericCount = 0;
+
+  for (const value of values) {
+    const match = value.trim().match(NUMERIC_DATE_PATTERN);
+    if (!match?.[1] || !match[2]) continue;
+    numericCount++;
+    if (+match[1] > 12) dmyVotes++;
+    if (+match[2] > 12) mdyVotes++;
+  }
+
+  const hasNumericDates = numericCount > 0;
+  if (dmyVotes > 0 || mdyVotes > 0) {
+    return {
+      order: dmyVotes >= mdyVotes ? 'DMY' : 'MDY',
+      ambiguous: dmyVotes > 0 && mdyVotes > 0,
+      hasNumericDates,
+    };
+  }
+
+  return { order: getLocaleDateOrder(locale), ambiguous: hasNumericDates, hasNumericDates };
+}
+
+/** A cell split into its date part, time of day and timezone label (if any) */
+export interface DateTimeParts {
+  datePart: string;
+  time: TimeOfDay | null;
+  zone: string | null; // resolved zone from a suffix like "ET" or "+05:30"
+}
+
+/**
+ * Trailing time: "09:30", "9:30:15", "9:30 AM", "9:30p", "09:30 ET", "T09:30:00Z", "09:30+05:30".
+ * AM/PM must not run into more letters, so "9:30 PST" reads as zone "PST".
+ */
+const TIME_PATTERN =
+  /(?:^|[\sT,])(\d{1,2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?\s*([ap]\.?m\.?|[ap](?![a-z]))?\s*([A-Za-z]{1,5}|[+-]\d{2}:?\d{2})?$/i;
+
+/**
+ * Splits a date-time cell into date part, time of day and timezone.
+ *
+ * @example
+ * splitDateTime('2024-01-15 09:30') // => { datePart: '2024-01-15', time: 9:30, zone: null }
+ * splitDateTime('9:30 AM ET') // => { datePart: '', time: 9:30, zone: 'America/New_York' }
+ * splitDateTime('Jan 15, 2024') // => { datePart: 'Jan 15, 2024', time: null, zone: null }
+ */
+export function splitDateTime(value: string): DateTimeParts {
+  const trimmed = value.trim();
+  const match = trimmed.match(TIME_PATTERN);
+  if (!match?.[1] || !match[2]) return { datePart: trimmed, time: null, zone: null };
+
+  const zone = match[5] ? resolveTimezone(match[5]) : null;
+  if (match[5] && !zone) return { datePart: trimmed, time: null, zone: null };
+
+  let hours = +match[1];
+  const minutes = +match[2];
+  const seconds = match[3] ? +match[3] : 0;
+  const meridiem = match[4]?.toLowerCase().charAt(0);
+  if (meridiem === 'p' && hours < 12) hours += 12;
+  if (meridiem === 'a' && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59 || seconds > 59) {
+    return { datePart: trimmed, time: null, zone: null };
+  }
+
+  const datePart = trimmed
+    .slice(0, match.index)
+    .replace(/[\s,T]+$/, '')
+    .trim();
+  return { datePart, time: { hours, minutes, seconds }, zone };
 }
 
 /**
@@ -313,6 +902,190 @@ function createValidDate(year: number, month: number, day: number): Date | null
   return date;
 }
 
+// ============================================================================
+// Fiscal Periods
+// Normalizes period labels like "Q3 2024", "FY24 Q3" or "Sep 2024"
+// ============================================================================
+
+/** Quarter before year: "Q3 2024", "Q3 FY24", "Q3'24" */
+const QUARTER_YEAR_PATTERN = /^Q([1-4])\s*(?:FY)?\s*'?(\d{4}|\d{2})$/i;
+
+/** Year before quarter: "FY24 Q3", "2024 Q3", "2024Q3" */
+const YEAR_QUARTER_PATTERN = /^(?:FY)?\s*'?(\d{4}|\d{2})\s*Q([1-4])$/i;
+
+/** Quarter-first shorthand: "3Q24", "3Q 2024" */
+const NUMBER_QUARTER_PATTERN = /^([1-4])Q\s*(?:FY)?\s*'?(\d{4}|\d{2})$/i;
+
+/** Fiscal year: "FY2024", "FY 24" */
+const FISCAL_YEAR_PATTERN = /^FY\s*'?(\d{4}|\d{2})$/i;
+
+/** Month and year: "Sep 2024", "Sep '24", "09/2024" */
+const MONTH_YEAR_PATTERN = /^([a-z]+|\d{1,2})\s*[/.\s]\s*'?(\d{4}|\d{2})$/i;
+
+/**
+ * Expands a 2- or 4-digit year string to a 4-digit year
+ */
+function toFullYear(year: string): number {
+  return year.length === 2 ? twoDigitYearToFour(Number(year)) : Number(year);
+}
+
+/**
+ * Normalizes a fiscal period label.
+ * Quarters become "YYYY-Qn", fiscal years "FYYYYY" and month periods "YYYY-MM".
+ * Labels in other formats are returned trimmed but otherwise unchanged.
+ *
+ * @example
+ * normalizeFiscalPeriod('Q3 2024') // => "2024-Q3"
+ * normalizeFiscalPeriod('FY24 Q3') // => "2024-Q3"
+ * normalizeFiscalPeriod('FY2024') // => "FY2024"
+ * normalizeFiscalPeriod('Sep 2024') // => "2024-09"
+ */
+export function normalizeFiscalPeriod(label: string): string {
+  const trimmed = label.trim().replace(/\s+/g, ' ');
+
+  const quarterYear = trimmed.match(QUARTER_YEAR_PATTERN) ?? trimmed.match(NUMBER_QUARTER_PATTERN);
+  if (quarterYear?.[1] && quarterYear[2]) {
+    return `${toFullYear(quarterYear[2])}-Q${quarterYear[1]}`;
+  }
+
+  const yearQuarter = trimmed.match(YEAR_QUARTER_PATTERN);
+  if (yearQuarter?.[1] && yearQuarter[2]) {
+    return `${toFullYear(yearQuarter[1])}-Q${yearQuarter[2]}`;
+  }
+
+  const fiscalYear = trimmed.match(FISCAL_YEAR_PATTERN);
+  if (fiscalYear?.[1]) {
+    return `FY${toFullYear(fiscalYear[1])}`;
+  }
+
+  const monthYear = trimmed.match(MONTH_YEAR_PATTERN);
+  if (monthYear?.[1] && monthYear[2]) {
+    const month = /^\d+$/.test(monthYear[1])
+      ? Number(monthYear[1])
+      : MONTH_NAMES[monthYear[1].toLowerCase()];
+    if (month && month >= 1 && month <= 12) {
+      return `${toFullYear(monthYear[2])}-${String(month).padStart(2, '0')}`;
+    }
+  }
+
+  return trimmed;
+}
+
+/** Trailing-period labels used as statement column headers */
+const TRAILING_PERIOD_PATTERN = /^(?:TTM|LTM|trailing\s+(?:12|twelve)\s+months)$/i;
+
+/** Normalized periods from normalizeFiscalPeriod: "2024-Q3", "FY2024", "2024-09" */
+const NORMALIZED_PERIOD_PATTERN = /^(?:\d{4}-(?:Q[1-4]|\d{2})|FY\d{4})$/;
+
+/**
+ * Normalizes a financial statement period header.
+ * Trailing-twelve-month labels become "TTM", full dates become YYYY-MM-DD,
+ * plain years stay as they are and other periods go through normalizeFiscalPeriod.
+ *
+ * @returns Normalized period, or null if the header is not a period
+ * @example
+ * normalizeStatementPeriod('12/31/2023') // => "2023-12-31"
+ * normalizeStatementPeriod('Dec 2023') // => "2023-12"
+ * normalizeStatementPeriod('Breakdown') // => null
+ */
+export function normalizeStatementPeriod(header: string, order: DateOrder = 'MDY'): string | null {
+  const trimmed = header.trim();
+  if (!trimmed) return null;
+  if (TRAILING_PERIOD_PATTERN.test(trimmed)) return 'TTM';
+  if (/^\d{4}$/.test(trimmed)) return trimmed;
+
+  const period = normalizeFiscalPeriod(trimmed);
+  if (NORMALIZED_PERIOD_PATTERN.test(period)) return period;
+
+  const date = parseDateToISO(trimmed, order);
+  return date && date !== INVALID_DATE ? date : null;
+}
+
+/**
+ * Normalizes a financial statement line-item label: collapses whitespace and drops
+ * footnote markers, expand/collapse glyphs and trailing colons.
+ *
+ * @example
+ * normalizeLineItem('  Total Revenue*  ') // => "Total Revenue"
+ * normalizeLineItem('› Operating Expenses:') // => "Operating Expenses"
+ */
+export function normalizeLineItem(label: string): string {
+  return label
+    .replace(/[*†‡§¹²³⁴⁵⁶⁷⁸⁹]+/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^[›»▸▶▾▼]\s*/, '')
+    .replace(/\s*:$/, '');
+}
+
+// ============================================================================
+// Option Contracts
+// Reads call/put side and expiry from contract symbols and nearby labels
+// ============================================================================
+
+export type OptionType = 'call' | 'put';
+
+/** OCC option symbol: root, YYMMDD expiry, C/P, strike × 1000 ("AAPL240119C00150000") */
+const OCC_SYMBOL_PATTERN = /^[A-Z][A-Z0-9.]{0,5}\s*(\d{2})(\d{2})(\d{2})([CP])\d{8}$/;
+
+/**
+ * Parses an OCC option contract symbol into its expiry (YYYY-MM-DD) and type
+ *
+ * @example
+ * parseOptionSymbol('AAPL240119C00150000') // => { expiry: '2024-01-19', type: 'call' }
+ */
+export function parseOptionSymbol(symbol: string): { expiry: string; type: OptionType } | null {
+  const match = symbol.trim().toUpperCase().match(OCC_SYMBOL_PATTERN);
+  if (!match?.[1] || !match[2] || !match[3] || !match[4]) return null;
+  return {
+    expiry: `20${match[1]}-${match[2]}-${match[3]}`,
+    type: match[4] === 'C' ? 'call' : 'put',
+  };
+}
+
+/**
+ * Reads a call/put label: "Call", "Calls", "C", "Puts", "P"
+ */
+export function parseOptionType(text: string): OptionType | null {
+  const tokens = tokenize(text);
+  const call = tokens.has('call') || tokens.has('calls') || text.trim().toUpperCase() === 'C';
+  const put = tokens.has('put') || tokens.has('puts') || text.trim().toUpperCase() === 'P';
+  if (call === put) return null;
+  return call ? 'call' : 'put';
+}
+
+/** Dates as they appear in expiry labels: "Jan 19, 2024", "19 January 2024", "2024-01-19" */
+const EXPIRY_DATE_PATTERN =
+  /\b(?:[A-Za-z]{3,9}\.?\s+\d{1,2},?\s+\d{4}|\d{1,2}\s+[A-Za-z]{3,9}\.?\s+\d{4}|\d{4}-\d{2}-\d{2}|\d{1,2}\/\d{1,2}\/\d{4})\b/;
+
+/** Expiry keyword followed by a date: "Expiration: Jan 19, 2024", "Calls for January 19, 2024" */
+const EXPIRY_LABEL_PATTERN = /\b(?:expir\w*|exp|for)\b\s*(?:date)?\s*[:\-]?\s*/gi;
+
+/**
+ * Finds an option expiry date in a label near an option chain.
+ * A date after "Expiration"/"Expiry"/"for" wins; short labels may hold just the date.
+ *
+ * @returns YYYY-MM-DD or null if none found
+ */
+export function findExpiryInText(text: string): string | null {
+  for (const labelMatch of text.matchAll(EXPIRY_LABEL_PATTERN)) {
+    const rest = text.slice((labelMatch.index ?? 0) + labelMatch[0].length);
+    const date = rest.match(EXPIRY_DATE_PATTERN);
+    if (date?.index === 0) {
+      const parsed = parseDateToISO(date[0].replace('.', ''));
+      if (parsed && parsed !== INVALID_DATE) return parsed;
+    }
+  }
+
+  const trimmed = text.trim();
+  const dateOnly = trimmed.match(EXPIRY_DATE_PATTERN);
+  if (dateOnly && dateOnly[0].length === trimmed.length) {
+    const parsed = parseDateToISO(trimmed.replace('.', ''));
+    if (parsed && parsed !== INVALID_DATE) return parsed;
+  }
+  return null;
+}
+
 // ============================================================================
 // Timeframe Extraction
 // Extracts timeframe from column headers like "Date · 1M" or "Date (1D)"
@@ -396,3 +1169,56 @@ function normalizeTimeframe(tf: string): string {
   // Uppercase the unit letter
   return tf.replace(/([mhdwy])$/i, (match) => match.toUpperCase());
 }
+
+// ============================================================================
+// Corporate Action Rows
+// Recognizes event rows interleaved in price history ("0.24 Dividend", "4:1 Stock Splits")
+// ============================================================================
+
+/** A dividend or split event found in a price history row */
+export type CorporateAction =
+  | { type: 'dividend'; amount: string }
+  | { type: 'split'; numerator: string; denominator: string };
+
+/** "0.24 Dividend", "$0.24 Cash Dividend" */
+const DIVIDEND_EVENT_PATTERN = /^[^\d]{0,3}(\d[\d.,]*)\s+(?:cash\s+)?dividends?$/i;
+
+/** "4:1 Stock Splits", "3-for-2 Split" */
+const SPLIT_EVENT_PATTERN = /^(.+?)\s+(?:stock\s+)?splits?$/i;
+
+/** "3-for-2", "2 for 1", "1:10", "4/1" */
+const SPLIT_RATIO_PATTERN = /(\d+(?:\.\d+)?)\s*(?:-?\s*for\s*-?|[:/])\s*(\d+(?:\.\d+)?)/i;
+
+/**
+ * Parses a split ratio into new shares (numerator) per old shares (denominator).
+ * Returns null if the text has no ratio.
+ *
+ * @example
+ * parseSplitRatio('3-for-2') // => { numerator: '3', denominator: '2' }
+ * parseSplitRatio('1:10') // => { numerator: '1', denominator: '10' }
+ */
+export function parseSplitRatio(text: string): { numerator: string; denominator: string } | null {
+  const match = text.match(SPLIT_RATIO_PATTERN);
+  if (!match?.[1] || !match[2]) return null;
+  return { numerator: match[1], denominator: match[2] };
+}
+
+/**
+ * Parses a corporate action cell from a price history table.
+ *
+ * @example
+ * parseCorporateAction('0.24 Dividend') // => { type: 'dividend', amount: '0.24' }
+ * parseCorporateAction('4:1 Stock Splits') // => { type: 'split', numerator: '4', denominator: '1' }
+ */
+export function parseCorporateAction(text: string): CorporateAction | null {
+  const value = text.trim();
+
+  const dividend = value.match(DIVIDEND_EVENT_PATTERN);
+  if (dividend?.[1]) return { type: 'dividend', amount: dividend[1] };
+
+  const split = value.match(SPLIT_EVENT_PATTERN);
+  const ratio = split?.[1] ? parseSplitRatio(split[1]) : null;
+  if (ratio) return { type: 'split', ...ratio };
+
+  return null;
+}